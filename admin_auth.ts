@@ -0,0 +1,147 @@
+import { Context, Router } from "https://deno.land/x/oak@v12.6.2/mod.ts";
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+
+export const ADMIN_SESSION_COOKIE = "admin_session";
+// 会话有效期：12小时
+const sessionTTL = 12 * 60 * 60 * 1000;
+
+// 管理员凭据来自 ADMIN_PASSWORD 环境变量，未配置时管理接口一律拒绝
+function getAdminPassword(): string | undefined {
+  return Deno.env.get("ADMIN_PASSWORD") || undefined;
+}
+
+// 先做哈希再比较，避免长度不同导致的提前返回
+function safeEqual(a: string, b: string): boolean {
+  const ha = createHash("sha256").update(a).digest();
+  const hb = createHash("sha256").update(b).digest();
+  return timingSafeEqual(ha, hb);
+}
+
+interface AdminSession {
+  created_at: number;
+  expires_at: number;
+}
+
+function sessionKey(sessionID: string) {
+  return ["admin_session", sessionID];
+}
+
+// 从请求头中取出管理密钥：支持 X-Admin-Key 或 Authorization: Bearer
+function getHeaderCredential(ctx: Context): string | undefined {
+  const adminKey = ctx.request.headers.get("x-admin-key");
+  if (adminKey) return adminKey;
+  const authHeader = ctx.request.headers.get("authorization");
+  if (authHeader?.startsWith("Bearer ")) {
+    return authHeader.slice("Bearer ".length);
+  }
+  return undefined;
+}
+
+export async function isAdminRequest(
+  kv: Deno.Kv,
+  ctx: Context,
+): Promise<boolean> {
+  const password = getAdminPassword();
+  if (!password) return false;
+
+  const credential = getHeaderCredential(ctx);
+  if (credential && safeEqual(credential, password)) return true;
+
+  const sessionID = await ctx.cookies.get(ADMIN_SESSION_COOKIE);
+  if (!sessionID) return false;
+  const session = await kv.get<AdminSession>(sessionKey(sessionID));
+  // KV 的过期删除并不及时，这里再校验一次过期时间
+  return !!session.value && session.value.expires_at > Date.now();
+}
+
+// 管理接口的鉴权中间件，注册管理路由的模块据此接收
+export type AdminGuard = (
+  ctx: Context,
+  next: () => Promise<unknown>,
+) => Promise<void>;
+
+export function adminGuard(kv: Deno.Kv): AdminGuard {
+  return async (ctx, next) => {
+    if (!getAdminPassword()) {
+      ctx.response.status = 503;
+      ctx.response.body = {
+        status: "error",
+        message: "未配置ADMIN_PASSWORD，管理接口已禁用",
+      };
+      return;
+    }
+    if (!(await isAdminRequest(kv, ctx))) {
+      ctx.response.status = 401;
+      ctx.response.body = {
+        status: "error",
+        message: "Unauthorized",
+      };
+      return;
+    }
+    await next();
+  };
+}
+
+// 注册登录、登出与会话查询路由
+export function registerAdminAuthRoutes(router: Router, kv: Deno.Kv) {
+  router.get("/admin/session", async (ctx) => {
+    ctx.response.body = {
+      status: "success",
+      configured: !!getAdminPassword(),
+      authenticated: await isAdminRequest(kv, ctx),
+    };
+  });
+
+  router.post("/admin/login", async (ctx) => {
+    const password = getAdminPassword();
+    if (!password) {
+      ctx.response.status = 503;
+      ctx.response.body = {
+        status: "error",
+        message: "未配置ADMIN_PASSWORD，管理接口已禁用",
+      };
+      return;
+    }
+
+    const body = await ctx.request.body().value;
+    if (
+      !body || typeof body.password !== "string" ||
+      !safeEqual(body.password, password)
+    ) {
+      ctx.response.status = 401;
+      ctx.response.body = {
+        status: "error",
+        message: "密码错误",
+      };
+      return;
+    }
+
+    const sessionID = randomBytes(32).toString("hex");
+    const session: AdminSession = {
+      created_at: Date.now(),
+      expires_at: Date.now() + sessionTTL,
+    };
+    await kv.set(sessionKey(sessionID), session, { expireIn: sessionTTL });
+    await ctx.cookies.set(ADMIN_SESSION_COOKIE, sessionID, {
+      httpOnly: true,
+      sameSite: "strict",
+      path: "/",
+      maxAge: sessionTTL / 1000,
+      secure: ctx.request.secure,
+    });
+    ctx.response.body = {
+      status: "success",
+    };
+  });
+
+  router.post("/admin/logout", async (ctx) => {
+    const sessionID = await ctx.cookies.get(ADMIN_SESSION_COOKIE);
+    if (sessionID) {
+      await kv.delete(sessionKey(sessionID));
+    }
+    await ctx.cookies.delete(ADMIN_SESSION_COOKIE, { path: "/" });
+    ctx.response.body = {
+      status: "success",
+    };
+  });
+}
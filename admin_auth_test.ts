@@ -0,0 +1,148 @@
+import { assert, assertEquals } from "@std/assert";
+import { createApp } from "./main.ts";
+import { createTokenStore, toTokenSummary } from "./token_store.ts";
+import { request, TestApp } from "./test_helpers.ts";
+
+async function withAdminApp(
+  password: string | undefined,
+  fn: (app: TestApp, kv: Deno.Kv) => Promise<void>,
+) {
+  const kv = await Deno.openKv(":memory:");
+  if (password) Deno.env.set("ADMIN_PASSWORD", password);
+  try {
+    await fn(createApp({ kv }), kv);
+  } finally {
+    Deno.env.delete("ADMIN_PASSWORD");
+    kv.close();
+  }
+}
+
+const managementRoutes: [string, string][] = [
+  ["GET", "/auth"],
+  ["POST", "/getToken"],
+  ["GET", "/getTokens"],
+  ["DELETE", "/deleteToken/abc"],
+  ["GET", "/admin/profiles"],
+  ["PUT", "/admin/profiles/abc"],
+  ["DELETE", "/admin/profiles/abc"],
+  ["GET", "/admin/models"],
+  ["PUT", "/admin/models/abc"],
+  ["DELETE", "/admin/models/abc"],
+  ["GET", "/admin/keys"],
+  ["POST", "/admin/keys"],
+  ["DELETE", "/admin/keys/abc"],
+  ["GET", "/admin/usage"],
+  ["GET", "/metrics"],
+];
+
+Deno.test("management routes are disabled without ADMIN_PASSWORD", async () => {
+  await withAdminApp(undefined, async (app) => {
+    for (const [method, path] of managementRoutes) {
+      const res = await request(app, method, path);
+      assertEquals(res.status, 503, `${method} ${path}`);
+      await res.body?.cancel();
+    }
+  });
+});
+
+Deno.test("management routes reject anonymous requests", async () => {
+  await withAdminApp("pw", async (app) => {
+    for (const [method, path] of managementRoutes) {
+      const res = await request(app, method, path);
+      assertEquals(res.status, 401, `${method} ${path}`);
+      await res.body?.cancel();
+    }
+  });
+});
+
+Deno.test("admin key header grants access", async () => {
+  await withAdminApp("pw", async (app) => {
+    const viaHeader = await request(app, "GET", "/getTokens", {
+      headers: { "X-Admin-Key": "pw" },
+    });
+    assertEquals(viaHeader.status, 200);
+    assertEquals((await viaHeader.json()).tokens, []);
+
+    const viaBearer = await request(app, "GET", "/getTokens", {
+      headers: { Authorization: "Bearer pw" },
+    });
+    assertEquals(viaBearer.status, 200);
+    await viaBearer.body?.cancel();
+
+    const wrong = await request(app, "GET", "/getTokens", {
+      headers: { "X-Admin-Key": "nope" },
+    });
+    assertEquals(wrong.status, 401);
+    await wrong.body?.cancel();
+  });
+});
+
+Deno.test("login issues a session cookie that unlocks the admin routes", async () => {
+  await withAdminApp("pw", async (app) => {
+    const failed = await request(app, "POST", "/admin/login", {
+      body: { password: "nope" },
+    });
+    assertEquals(failed.status, 401);
+    await failed.body?.cancel();
+
+    const login = await request(app, "POST", "/admin/login", {
+      body: { password: "pw" },
+    });
+    assertEquals(login.status, 200);
+    await login.body?.cancel();
+    const setCookie = login.headers.get("set-cookie") ?? "";
+    assert(setCookie.includes("httponly"));
+    const cookie = setCookie.split(";")[0];
+
+    const session = await request(app, "GET", "/admin/session", {
+      headers: { Cookie: cookie },
+    });
+    assertEquals((await session.json()).authenticated, true);
+
+    const tokens = await request(app, "GET", "/getTokens", {
+      headers: { Cookie: cookie },
+    });
+    assertEquals(tokens.status, 200);
+    await tokens.body?.cancel();
+
+    const logout = await request(app, "POST", "/admin/logout", {
+      headers: { Cookie: cookie },
+    });
+    await logout.body?.cancel();
+
+    const after = await request(app, "GET", "/getTokens", {
+      headers: { Cookie: cookie },
+    });
+    assertEquals(after.status, 401);
+    await after.body?.cancel();
+  });
+});
+
+Deno.test("token list and delete address tokens by ID only", async () => {
+  await withAdminApp("pw", async (app, kv) => {
+    const saved = await createTokenStore(kv).save(
+      "raw-secret-value",
+      "https://t.example/",
+    );
+    const headers = { "X-Admin-Key": "pw" };
+
+    const list = await request(app, "GET", "/getTokens", { headers });
+    const text = await list.text();
+    assert(!text.includes("raw-secret-value"));
+    const { tokens } = JSON.parse(text);
+    assertEquals(tokens, [toTokenSummary(saved)]);
+
+    const missing = await request(app, "DELETE", "/deleteToken/unknown", {
+      headers,
+    });
+    assertEquals(missing.status, 404);
+    await missing.body?.cancel();
+
+    const deleted = await request(app, "DELETE", `/deleteToken/${saved.id}`, {
+      headers,
+    });
+    assertEquals(deleted.status, 200);
+    await deleted.body?.cancel();
+    assertEquals(await createTokenStore(kv).list(), []);
+  });
+});
@@ -0,0 +1,303 @@
+import {
+  AnthropicContentBlock,
+  AnthropicImageBlock,
+  AnthropicRequest,
+  AnthropicResponse,
+  AnthropicTextBlock,
+  AnthropicToolResultBlock,
+  AnthropicToolUseBlock,
+  AnthropicUsage,
+  ChatMessage,
+  ContentPart,
+  OpenAIRequest,
+  OpenAIToolChoice,
+  ToolCall,
+} from "./types.ts";
+import { ApiError } from "./errors.ts";
+import { TextCutter } from "./completion_limits.ts";
+
+// 错误响应与流式 error 事件的格式：{type: "error", error: {type, message}}
+export function toAnthropicError(error: ApiError) {
+  // Anthropic 没有 server_error，统一归为 api_error
+  const type = error.type === "server_error" ? "api_error" : error.type;
+  return { type: "error", error: { type, message: error.message } };
+}
+
+export function anthropicErrorEvent(error: ApiError): string {
+  return `event: error\ndata: ${JSON.stringify(toAnthropicError(error))}\n\n`;
+}
+
+function blocksText(content: string | AnthropicContentBlock[] | undefined) {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((block): block is AnthropicTextBlock => block.type === "text")
+    .map((block) => block.text)
+    .join("\n");
+}
+
+function toToolChoice(
+  choice: AnthropicRequest["tool_choice"],
+): OpenAIToolChoice | undefined {
+  switch (choice?.type) {
+    case "auto":
+      return "auto";
+    case "any":
+      return "required";
+    case "none":
+      return "none";
+    case "tool":
+      return choice.name
+        ? { type: "function", function: { name: choice.name } }
+        : undefined;
+  }
+  return undefined;
+}
+
+// 一条 Anthropic 消息可能拆成多条 OpenAI 消息：tool_result 单独成为 role 为 tool 的消息
+function toChatMessages(
+  message: AnthropicRequest["messages"][number],
+): ChatMessage[] {
+  if (typeof message.content === "string") {
+    return [{ role: message.role, content: message.content }];
+  }
+
+  const text = blocksText(message.content);
+  if (message.role === "assistant") {
+    const toolCalls: ToolCall[] = message.content
+      .filter((block): block is AnthropicToolUseBlock =>
+        block.type === "tool_use"
+      )
+      .map((block) => ({
+        id: block.id,
+        type: "function",
+        function: {
+          name: block.name,
+          arguments: JSON.stringify(block.input ?? {}),
+        },
+      }));
+    return [
+      toolCalls.length > 0
+        ? { role: "assistant", content: text, tool_calls: toolCalls }
+        : { role: "assistant", content: text },
+    ];
+  }
+
+  const messages: ChatMessage[] = message.content
+    .filter((block): block is AnthropicToolResultBlock =>
+      block.type === "tool_result"
+    )
+    .map((block) => ({
+      role: "tool",
+      tool_call_id: block.tool_use_id,
+      content: blocksText(block.content),
+    }));
+  const parts = message.content.filter((block) =>
+    block.type !== "tool_result" && block.type !== "tool_use"
+  );
+  if (parts.some((block) => block.type !== "text")) {
+    // 图片等非文本块保留为内容块，由 prepareContentParts 统一处理
+    messages.push({ role: "user", content: parts.map(toContentPart) });
+  } else if (text) {
+    messages.push({ role: "user", content: text });
+  }
+  return messages;
+}
+
+function toContentPart(block: AnthropicContentBlock): ContentPart {
+  if (block.type !== "image") return block as ContentPart;
+  const { source } = block as AnthropicImageBlock;
+  const url = source.type === "base64"
+    ? `data:${source.media_type};base64,${source.data}`
+    : source.url;
+  return { type: "image_url", image_url: { url } };
+}
+
+// 转换为 OpenAI 请求，复用现有的 Augment 请求转换逻辑
+export function toOpenAIRequest(req: AnthropicRequest): OpenAIRequest {
+  const messages: ChatMessage[] = [];
+  const system = blocksText(req.system);
+  if (system) messages.push({ role: "system", content: system });
+  for (const message of req.messages) {
+    messages.push(...toChatMessages(message));
+  }
+
+  return {
+    model: req.model,
+    messages,
+    stream: req.stream,
+    temperature: req.temperature,
+    max_tokens: req.max_tokens,
+    stop: req.stop_sequences,
+    tools: req.tools?.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.input_schema,
+      },
+    })),
+    tool_choice: toToolChoice(req.tool_choice),
+  };
+}
+
+function toToolUseBlock(call: ToolCall): AnthropicToolUseBlock {
+  let input: unknown = {};
+  try {
+    input = JSON.parse(call.function.arguments || "{}");
+  } catch {
+    // 上游参数不是合法JSON时原样放入
+    input = { arguments: call.function.arguments };
+  }
+  return { type: "tool_use", id: call.id, name: call.function.name, input };
+}
+
+// 服务端按 max_tokens 或 stop_sequences 截断时的状态
+export type StopState = Pick<TextCutter, "finishReason" | "stopSequence">;
+
+function stopFields(hasToolUse: boolean, stop: StopState | null) {
+  const reasons = { length: "max_tokens", stop: "stop_sequence" };
+  return {
+    stop_reason: stop?.finishReason
+      ? reasons[stop.finishReason]
+      : hasToolUse
+      ? "tool_use"
+      : "end_turn",
+    stop_sequence: stop?.stopSequence ?? null,
+  };
+}
+
+// 非流式响应
+export function toAnthropicResponse(
+  id: string,
+  model: string,
+  text: string,
+  toolCalls: ToolCall[],
+  usage: AnthropicUsage,
+  stop: StopState | null = null,
+  thinking = "",
+): AnthropicResponse {
+  const content: AnthropicResponse["content"] = [];
+  if (thinking) content.push({ type: "thinking", thinking, signature: "" });
+  if (text) content.push({ type: "text", text });
+  content.push(...toolCalls.map(toToolUseBlock));
+  return {
+    id,
+    type: "message",
+    role: "assistant",
+    model,
+    content,
+    ...stopFields(toolCalls.length > 0, stop),
+    usage,
+  };
+}
+
+function sseEvent(type: string, data: Record<string, unknown>): string {
+  return `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+}
+
+export interface AnthropicStreamWriter {
+  start(inputTokens: number): string;
+  thinking(text: string): string;
+  text(text: string): string;
+  toolCall(call: ToolCall): string;
+  finish(outputTokens: number, stop?: StopState | null): string;
+}
+
+// 按 Anthropic 事件顺序生成流式输出，记录当前打开的内容块
+export function createAnthropicStreamWriter(
+  id: string,
+  model: string,
+): AnthropicStreamWriter {
+  let index = -1;
+  // 当前打开的文本或思考内容块
+  let openBlock: "text" | "thinking" | null = null;
+  let hasToolUse = false;
+
+  const closeBlock = () => {
+    if (!openBlock) return "";
+    openBlock = null;
+    return sseEvent("content_block_stop", { index });
+  };
+
+  // 向指定类型的内容块追加增量，类型不同时先关闭当前块
+  const appendDelta = (
+    type: "text" | "thinking",
+    contentBlock: Record<string, string>,
+    delta: Record<string, string>,
+  ) => {
+    let out = "";
+    if (openBlock !== type) {
+      out += closeBlock();
+      openBlock = type;
+      index++;
+      out += sseEvent("content_block_start", {
+        index,
+        content_block: contentBlock,
+      });
+    }
+    return out + sseEvent("content_block_delta", { index, delta });
+  };
+
+  return {
+    start(inputTokens) {
+      return sseEvent("message_start", {
+        message: {
+          id,
+          type: "message",
+          role: "assistant",
+          model,
+          content: [],
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: inputTokens, output_tokens: 0 },
+        },
+      }) + sseEvent("ping", {});
+    },
+
+    thinking(text) {
+      if (!text) return "";
+      return appendDelta(
+        "thinking",
+        { type: "thinking", thinking: "", signature: "" },
+        { type: "thinking_delta", thinking: text },
+      );
+    },
+
+    text(text) {
+      if (!text) return "";
+      return appendDelta(
+        "text",
+        { type: "text", text: "" },
+        { type: "text_delta", text },
+      );
+    },
+
+    toolCall(call) {
+      hasToolUse = true;
+      let out = closeBlock();
+      index++;
+      out += sseEvent("content_block_start", {
+        index,
+        content_block: { ...toToolUseBlock(call), input: {} },
+      });
+      out += sseEvent("content_block_delta", {
+        index,
+        delta: {
+          type: "input_json_delta",
+          partial_json: call.function.arguments || "{}",
+        },
+      });
+      return out + sseEvent("content_block_stop", { index });
+    },
+
+    finish(outputTokens, stop = null) {
+      return closeBlock() +
+        sseEvent("message_delta", {
+          delta: stopFields(hasToolUse, stop),
+          usage: { output_tokens: outputTokens },
+        }) +
+        sseEvent("message_stop", {});
+    },
+  };
+}
@@ -0,0 +1,329 @@
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { toOpenAIRequest } from "./anthropic.ts";
+import { textSteps } from "./mock_augment.ts";
+import { request, setup, TestApp } from "./test_helpers.ts";
+import { ResponseNodeType } from "./types.ts";
+
+function messages(
+  app: TestApp,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Promise<Response> {
+  return request(app, "POST", "/v1/messages", { body, headers });
+}
+
+// 解析 SSE 响应为 [事件名, 数据] 列表
+async function readNamedEvents(res: Response) {
+  const text = await res.text();
+  return text.split("\n\n")
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block) => {
+      const [eventLine, dataLine] = block.split("\n");
+      return [
+        eventLine.slice("event: ".length),
+        JSON.parse(dataLine.slice("data: ".length)),
+      ] as const;
+    });
+}
+
+const toolUseLine = {
+  text: "",
+  done: true,
+  nodes: [{
+    id: 1,
+    type: ResponseNodeType.TOOL_USE,
+    content: "",
+    toolUse: {
+      toolUseID: "toolu_1",
+      toolName: "get_weather",
+      inputJSON: '{"city":"Paris"}',
+    },
+  }],
+};
+
+Deno.test("Anthropic requests convert to OpenAI messages", () => {
+  const req = toOpenAIRequest({
+    model: "claude-3.7",
+    max_tokens: 256,
+    system: [{ type: "text", text: "Be brief." }],
+    messages: [
+      { role: "user", content: "Weather?" },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Checking." },
+          {
+            type: "tool_use",
+            id: "toolu_1",
+            name: "get_weather",
+            input: { city: "Paris" },
+          },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "toolu_1", content: "Sunny" },
+          { type: "text", text: "Thanks" },
+        ],
+      },
+    ],
+    tools: [{ name: "get_weather", input_schema: { type: "object" } }],
+    tool_choice: { type: "tool", name: "get_weather" },
+  });
+
+  assertEquals(req.max_tokens, 256);
+  assertEquals(req.messages, [
+    { role: "system", content: "Be brief." },
+    { role: "user", content: "Weather?" },
+    {
+      role: "assistant",
+      content: "Checking.",
+      tool_calls: [{
+        id: "toolu_1",
+        type: "function",
+        function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+      }],
+    },
+    { role: "tool", tool_call_id: "toolu_1", content: "Sunny" },
+    { role: "user", content: "Thanks" },
+  ]);
+  assertEquals(req.tools?.[0].function.parameters, { type: "object" });
+  assertEquals(req.tool_choice, {
+    type: "function",
+    function: { name: "get_weather" },
+  });
+});
+
+Deno.test("Anthropic image blocks become image parts", () => {
+  const req = toOpenAIRequest({
+    model: "claude-3.7",
+    max_tokens: 256,
+    messages: [{
+      role: "user",
+      content: [
+        {
+          type: "image",
+          source: { type: "base64", media_type: "image/png", data: "iVBOR" },
+        },
+        { type: "text", text: "What is this?" },
+      ],
+    }],
+  });
+  assertEquals(req.messages, [{
+    role: "user",
+    content: [
+      { type: "image_url", image_url: { url: "data:image/png;base64,iVBOR" } },
+      { type: "text", text: "What is this?" },
+    ],
+  }]);
+});
+
+Deno.test("non-stream /v1/messages returns an Anthropic message", async () => {
+  const env = await setup({ steps: textSteps("Hello", ", world") });
+  try {
+    const res = await messages(env.app, {
+      model: "claude-3.7",
+      max_tokens: 64,
+      system: "You are terse.",
+      messages: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+    });
+    assertEquals(res.status, 200);
+    const json = await res.json();
+    assertEquals(json.type, "message");
+    assertEquals(json.role, "assistant");
+    assertEquals(json.content, [{ type: "text", text: "Hello, world" }]);
+    assertEquals(json.stop_reason, "end_turn");
+    assert(json.usage.input_tokens > 0);
+    assert(json.usage.output_tokens > 0);
+    assertStringIncludes(env.mock.requests[0].message, "Hi");
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("/v1/messages reports stop_sequence and max_tokens stops", async () => {
+  const env = await setup({ steps: textSteps("Hello world", " STOP more") });
+  try {
+    const stopped = await messages(env.app, {
+      model: "claude-3.7",
+      max_tokens: 64,
+      stop_sequences: ["STOP"],
+      messages: [{ role: "user", content: "Hi" }],
+    });
+    const stoppedJson = await stopped.json();
+    assertEquals(stoppedJson.content, [{ type: "text", text: "Hello world " }]);
+    assertEquals(stoppedJson.stop_reason, "stop_sequence");
+    assertEquals(stoppedJson.stop_sequence, "STOP");
+
+    const limited = await messages(env.app, {
+      model: "claude-3.7",
+      max_tokens: 1,
+      stream: true,
+      messages: [{ role: "user", content: "Hi" }],
+    });
+    const events = await readNamedEvents(limited);
+    const deltas = events.filter(([name]) => name === "content_block_delta");
+    assertEquals(deltas.map(([, data]) => data.delta.text).join(""), "Hello");
+    const [, messageDelta] = events.find(([name]) => name === "message_delta")!;
+    assertEquals(messageDelta.delta, {
+      stop_reason: "max_tokens",
+      stop_sequence: null,
+    });
+    assertEquals(messageDelta.usage.output_tokens, 1);
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("upstream thinking becomes Anthropic thinking blocks", async () => {
+  const env = await setup({
+    steps: [
+      {
+        line: {
+          text: "",
+          done: false,
+          nodes: [{
+            id: 1,
+            type: ResponseNodeType.THINKING,
+            content: "",
+            thinking: { summary: "Simple greeting." },
+          }],
+        },
+      },
+      { line: { text: "Hello", done: true } },
+    ],
+  });
+  try {
+    const body = {
+      model: "claude-3.7",
+      max_tokens: 64,
+      messages: [{ role: "user", content: "Hi" }],
+    };
+    const json = await (await messages(env.app, body)).json();
+    assertEquals(json.content, [
+      { type: "thinking", thinking: "Simple greeting.", signature: "" },
+      { type: "text", text: "Hello" },
+    ]);
+
+    const events = await readNamedEvents(
+      await messages(env.app, { ...body, stream: true }),
+    );
+    const blocks = events.filter(([name]) => name.startsWith("content_block"));
+    assertEquals(blocks.map(([name, data]) => [name, data.index]), [
+      ["content_block_start", 0],
+      ["content_block_delta", 0],
+      ["content_block_stop", 0],
+      ["content_block_start", 1],
+      ["content_block_delta", 1],
+      ["content_block_stop", 1],
+    ]);
+    assertEquals(blocks[1][1].delta, {
+      type: "thinking_delta",
+      thinking: "Simple greeting.",
+    });
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("stream /v1/messages emits Anthropic SSE events", async () => {
+  const env = await setup({
+    steps: [{ line: { text: "Checking.", done: false } }, {
+      line: toolUseLine,
+    }],
+  });
+  try {
+    const res = await messages(env.app, {
+      model: "claude-3.7",
+      max_tokens: 64,
+      stream: true,
+      messages: [{ role: "user", content: "Weather in Paris?" }],
+      tools: [{ name: "get_weather", input_schema: { type: "object" } }],
+    });
+    assertStringIncludes(res.headers.get("content-type")!, "text/event-stream");
+    const events = await readNamedEvents(res);
+
+    assertEquals(events.map(([name]) => name), [
+      "message_start",
+      "ping",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_stop",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ]);
+    for (const [name, data] of events) assertEquals(data.type, name);
+
+    assertEquals(events[3][1].delta, { type: "text_delta", text: "Checking." });
+    assertEquals(events[5][1].index, 1);
+    assertEquals(events[5][1].content_block, {
+      type: "tool_use",
+      id: "toolu_1",
+      name: "get_weather",
+      input: {},
+    });
+    assertEquals(events[6][1].delta, {
+      type: "input_json_delta",
+      partial_json: '{"city":"Paris"}',
+    });
+    assertEquals(events[8][1].delta.stop_reason, "tool_use");
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("/v1/messages accepts x-api-key and rejects bad requests", async () => {
+  const env = await setup({ steps: textSteps("hi") });
+  Deno.env.set("OAUTH_TOKEN", "secret");
+  try {
+    const body = {
+      model: "claude-3.7",
+      max_tokens: 16,
+      messages: [{ role: "user", content: "Hi" }],
+    };
+    const denied = await messages(env.app, body);
+    assertEquals(denied.status, 401);
+    assertEquals((await denied.json()).error.type, "authentication_error");
+
+    const allowed = await messages(env.app, body, { "x-api-key": "secret" });
+    assertEquals(allowed.status, 200);
+    await allowed.body?.cancel();
+
+    const invalid = await messages(
+      env.app,
+      { model: "claude-3.7", messages: body.messages },
+      { "x-api-key": "secret" },
+    );
+    assertEquals(invalid.status, 400);
+    assertEquals((await invalid.json()).error.type, "invalid_request_error");
+  } finally {
+    Deno.env.delete("OAUTH_TOKEN");
+    await env.close();
+  }
+});
+
+Deno.test("stream /v1/messages ends with an error event on failure", async () => {
+  const env = await setup({
+    steps: [{ line: { text: "half", done: false } }, { truncate: true }],
+  });
+  try {
+    const res = await messages(env.app, {
+      model: "claude-3.7",
+      max_tokens: 16,
+      stream: true,
+      messages: [{ role: "user", content: "Hi" }],
+    });
+    const events = await readNamedEvents(res);
+    const [name, data] = events.at(-1)!;
+    assertEquals(name, "error");
+    assertEquals(data.error.type, "api_error");
+    assert(!events.some(([name]) => name === "message_stop"));
+  } finally {
+    await env.close();
+  }
+});
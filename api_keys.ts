@@ -0,0 +1,312 @@
+import { Context, Router } from "https://deno.land/x/oak@v12.6.2/mod.ts";
+import { AdminGuard } from "./admin_auth.ts";
+import { createHash, randomBytes } from "node:crypto";
+import { ApiError } from "./errors.ts";
+
+const keyPrefix = ["api_key"];
+// 密钥哈希到ID的索引，鉴权时按哈希查找
+const hashPrefix = ["api_key_hash"];
+// 每个密钥每月已用的token数
+const usagePrefix = ["api_key_usage"];
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  // 仅用于展示，完整密钥只在创建时返回一次
+  masked_key: string;
+  key_hash: string;
+  created_at: number;
+  // 过期时间（毫秒时间戳），null 表示永不过期
+  expires_at: number | null;
+  // 允许使用的模型，空数组表示不限制
+  allowed_models: string[];
+  // 每月token配额，null 表示不限制
+  monthly_token_quota: number | null;
+  // 限流设置，null 表示使用 RATE_LIMIT_* 环境变量中的默认值
+  rpm_limit: number | null;
+  tpm_limit: number | null;
+  concurrent_streams: number | null;
+}
+
+export type NewApiKey = Omit<
+  ApiKey,
+  "id" | "masked_key" | "key_hash" | "created_at"
+>;
+
+export interface ApiKeySummary extends Omit<ApiKey, "key_hash"> {
+  month_tokens: number;
+}
+
+export class ApiKeyError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ApiKeyError";
+  }
+}
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function maskSecret(secret: string): string {
+  return `${secret.slice(0, 7)}****${secret.slice(-4)}`;
+}
+
+// 按UTC自然月统计配额
+function monthOf(time: number): string {
+  return new Date(time).toISOString().slice(0, 7);
+}
+
+export interface ApiKeyStore {
+  list(): Promise<ApiKey[]>;
+  // 返回新建的记录与完整密钥
+  create(input: NewApiKey): Promise<{ apiKey: ApiKey; secret: string }>;
+  delete(id: string): Promise<boolean>;
+  findBySecret(secret: string): Promise<ApiKey | null>;
+  hasKeys(): Promise<boolean>;
+  monthlyUsage(id: string, now?: number): Promise<number>;
+  addUsage(id: string, tokens: number, now?: number): Promise<void>;
+}
+
+export function createApiKeyStore(kv: Deno.Kv): ApiKeyStore {
+  const get = async (id: string) =>
+    (await kv.get<ApiKey>([...keyPrefix, id])).value;
+
+  return {
+    async list() {
+      const keys: ApiKey[] = [];
+      for await (const entry of kv.list<ApiKey>({ prefix: keyPrefix })) {
+        keys.push(entry.value);
+      }
+      return keys;
+    },
+
+    async create(input) {
+      const secret = `sk-${randomBytes(24).toString("hex")}`;
+      const apiKey: ApiKey = {
+        ...input,
+        id: crypto.randomUUID(),
+        masked_key: maskSecret(secret),
+        key_hash: hashSecret(secret),
+        created_at: Date.now(),
+      };
+      await kv.atomic()
+        .set([...keyPrefix, apiKey.id], apiKey)
+        .set([...hashPrefix, apiKey.key_hash], apiKey.id)
+        .commit();
+      return { apiKey, secret };
+    },
+
+    async delete(id) {
+      const apiKey = await get(id);
+      if (!apiKey) return false;
+      await kv.atomic()
+        .delete([...keyPrefix, id])
+        .delete([...hashPrefix, apiKey.key_hash])
+        .commit();
+      for await (const entry of kv.list({ prefix: [...usagePrefix, id] })) {
+        await kv.delete(entry.key);
+      }
+      return true;
+    },
+
+    async findBySecret(secret) {
+      const id = await kv.get<string>([...hashPrefix, hashSecret(secret)]);
+      return id.value ? await get(id.value) : null;
+    },
+
+    async hasKeys() {
+      for await (const _ of kv.list({ prefix: keyPrefix }, { limit: 1 })) {
+        return true;
+      }
+      return false;
+    },
+
+    async monthlyUsage(id, now = Date.now()) {
+      const entry = await kv.get<Deno.KvU64>([
+        ...usagePrefix,
+        id,
+        monthOf(now),
+      ]);
+      return entry.value ? Number(entry.value.value) : 0;
+    },
+
+    async addUsage(id, tokens, now = Date.now()) {
+      if (tokens <= 0) return;
+      await kv.atomic()
+        .sum([...usagePrefix, id, monthOf(now)], BigInt(Math.round(tokens)))
+        .commit();
+    },
+  };
+}
+
+function unauthorizedError(
+  message = "Invalid API key",
+  code = "invalid_api_key",
+): ApiError {
+  return new ApiError(401, "authentication_error", message, code);
+}
+
+// 客户端凭据：Authorization: Bearer 或 x-api-key
+function clientCredential(ctx: Context): string | undefined {
+  const apiKey = ctx.request.headers.get("x-api-key");
+  if (apiKey) return apiKey;
+  const authHeader = ctx.request.headers.get("authorization");
+  if (authHeader?.startsWith("Bearer ")) {
+    return authHeader.slice("Bearer ".length);
+  }
+  return undefined;
+}
+
+// 客户端鉴权：共享的 OAUTH_TOKEN 不受密钥策略限制，返回 null；
+// 既未配置 OAUTH_TOKEN 也没有创建任何密钥时不做鉴权
+export async function authenticateClient(
+  store: ApiKeyStore,
+  ctx: Context,
+): Promise<ApiKey | null> {
+  const oauthToken = Deno.env.get("OAUTH_TOKEN");
+  const credential = clientCredential(ctx);
+  if (oauthToken && credential === oauthToken) return null;
+
+  const apiKey = credential ? await store.findBySecret(credential) : null;
+  if (!apiKey) {
+    if (!oauthToken && !(await store.hasKeys())) return null;
+    throw unauthorizedError();
+  }
+  if (apiKey.expires_at !== null && apiKey.expires_at <= Date.now()) {
+    throw unauthorizedError("API key has expired", "api_key_expired");
+  }
+  return apiKey;
+}
+
+// 转发前检查模型白名单与本月配额
+export async function checkApiKeyPolicy(
+  store: ApiKeyStore,
+  apiKey: ApiKey | null,
+  model: string,
+) {
+  if (!apiKey) return;
+  if (
+    apiKey.allowed_models.length > 0 && !apiKey.allowed_models.includes(model)
+  ) {
+    throw new ApiError(
+      403,
+      "permission_error",
+      `该API密钥不允许使用模型: ${model}`,
+      "model_not_allowed",
+      "model",
+    );
+  }
+  if (
+    apiKey.monthly_token_quota !== null &&
+    await store.monthlyUsage(apiKey.id) >= apiKey.monthly_token_quota
+  ) {
+    throw new ApiError(
+      429,
+      "rate_limit_error",
+      "该API密钥本月token配额已用完",
+      "insufficient_quota",
+    );
+  }
+}
+
+// 校验管理接口提交的新密钥参数
+export function parseNewApiKey(body: unknown): NewApiKey {
+  if (!body || typeof body !== "object") {
+    throw new ApiKeyError("请求体必须是JSON对象");
+  }
+  const input = body as Record<string, unknown>;
+  if (typeof input.name !== "string" || !input.name.trim()) {
+    throw new ApiKeyError("缺少字段: name");
+  }
+  const expiresAt = input.expires_at ?? null;
+  if (expiresAt !== null && typeof expiresAt !== "number") {
+    throw new ApiKeyError("expires_at 必须是毫秒时间戳或 null");
+  }
+  const allowedModels = input.allowed_models ?? [];
+  if (
+    !Array.isArray(allowedModels) ||
+    allowedModels.some((model) => typeof model !== "string")
+  ) {
+    throw new ApiKeyError("allowed_models 必须是字符串数组");
+  }
+  return {
+    name: input.name.trim(),
+    expires_at: expiresAt,
+    allowed_models: allowedModels,
+    monthly_token_quota: optionalCount(input, "monthly_token_quota", 0),
+    rpm_limit: optionalCount(input, "rpm_limit", 1),
+    tpm_limit: optionalCount(input, "tpm_limit", 1),
+    concurrent_streams: optionalCount(input, "concurrent_streams", 1),
+  };
+}
+
+// 可选的整数字段，未提供时为 null
+function optionalCount(
+  input: Record<string, unknown>,
+  field: string,
+  min: number,
+): number | null {
+  const value = input[field] ?? null;
+  if (value === null) return null;
+  if (!Number.isInteger(value) || (value as number) < min) {
+    throw new ApiKeyError(`${field} 必须是不小于 ${min} 的整数或 null`);
+  }
+  return value as number;
+}
+
+export async function toApiKeySummary(
+  store: ApiKeyStore,
+  apiKey: ApiKey,
+): Promise<ApiKeySummary> {
+  const { key_hash: _hash, ...rest } = apiKey;
+  return { ...rest, month_tokens: await store.monthlyUsage(apiKey.id) };
+}
+
+// 注册客户端API密钥的管理路由
+export function registerApiKeyRoutes(
+  router: Router,
+  store: ApiKeyStore,
+  requireAdmin: AdminGuard,
+) {
+  router.get("/admin/keys", requireAdmin, async (ctx) => {
+    const keys = await store.list();
+    ctx.response.body = {
+      status: "success",
+      keys: await Promise.all(keys.map((key) => toApiKeySummary(store, key))),
+    };
+  });
+
+  router.post("/admin/keys", requireAdmin, async (ctx) => {
+    try {
+      const input = parseNewApiKey(await ctx.request.body().value);
+      const { apiKey, secret } = await store.create(input);
+      ctx.response.body = {
+        status: "success",
+        key: await toApiKeySummary(store, apiKey),
+        secret,
+      };
+    } catch (error) {
+      if (!(error instanceof ApiKeyError)) throw error;
+      ctx.response.status = error.status;
+      ctx.response.body = {
+        status: "error",
+        message: error.message,
+      };
+    }
+  });
+
+  router.delete("/admin/keys/:id", requireAdmin, async (ctx) => {
+    if (!(await store.delete(ctx.params.id))) {
+      ctx.response.status = 404;
+      ctx.response.body = {
+        status: "error",
+        message: "API key not found",
+      };
+      return;
+    }
+    ctx.response.body = {
+      status: "success",
+    };
+  });
+}
@@ -0,0 +1,147 @@
+import { assert, assertEquals } from "@std/assert";
+import { createApp } from "./main.ts";
+import { startMockAugment, textSteps } from "./mock_augment.ts";
+import { createApiKeyStore, parseNewApiKey } from "./api_keys.ts";
+import { createTokenStore } from "./token_store.ts";
+import { request, TestApp } from "./test_helpers.ts";
+
+function chat(
+  app: TestApp,
+  secret: string,
+  model = "claude-3.7",
+) {
+  return request(app, "POST", "/v1/chat/completions", {
+    headers: { Authorization: `Bearer ${secret}` },
+    body: { model, messages: [{ role: "user", content: "Hi" }] },
+  });
+}
+
+Deno.test("keys are stored hashed and looked up by secret", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const store = createApiKeyStore(kv);
+    assertEquals(await store.hasKeys(), false);
+    const { apiKey, secret } = await store.create(
+      parseNewApiKey({ name: "alice" }),
+    );
+    assert(secret.startsWith("sk-"));
+    assert(!JSON.stringify(await store.list()).includes(secret));
+    assertEquals((await store.findBySecret(secret))?.id, apiKey.id);
+    assertEquals(await store.findBySecret("sk-wrong"), null);
+
+    await store.addUsage(apiKey.id, 30);
+    await store.addUsage(apiKey.id, 12);
+    assertEquals(await store.monthlyUsage(apiKey.id), 42);
+    // 下个月重新计数
+    const nextMonth = Date.now() + 32 * 24 * 60 * 60 * 1000;
+    assertEquals(await store.monthlyUsage(apiKey.id, nextMonth), 0);
+
+    assert(await store.delete(apiKey.id));
+    assertEquals(await store.findBySecret(secret), null);
+    assertEquals(await store.hasKeys(), false);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("new key input is validated", () => {
+  for (
+    const body of [
+      {},
+      { name: " " },
+      { name: "a", expires_at: "soon" },
+      { name: "a", allowed_models: "claude-3.7" },
+      { name: "a", monthly_token_quota: -1 },
+    ]
+  ) {
+    let failed = false;
+    try {
+      parseNewApiKey(body);
+    } catch {
+      failed = true;
+    }
+    assert(failed, JSON.stringify(body));
+  }
+});
+
+Deno.test("admin-issued keys enforce expiry, models and quota", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const mock = startMockAugment({ steps: textSteps("hello there") });
+  Deno.env.set("ADMIN_PASSWORD", "pw");
+  try {
+    await createTokenStore(kv).save("test-token", mock.url);
+    const app = createApp({ kv });
+    const admin = { "X-Admin-Key": "pw" };
+    const create = async (body: unknown) => {
+      const res = await request(app, "POST", "/admin/keys", {
+        headers: admin,
+        body,
+      });
+      assertEquals(res.status, 200);
+      return await res.json();
+    };
+
+    const alice = await create({
+      name: "alice",
+      allowed_models: ["claude-3.7"],
+      monthly_token_quota: 1,
+    });
+    const expired = await create({ name: "old", expires_at: Date.now() - 1 });
+
+    // 存在密钥后，未携带或携带错误密钥都会被拒绝
+    const anonymous = await request(app, "POST", "/v1/chat/completions", {
+      body: {
+        model: "claude-3.7",
+        messages: [{ role: "user", content: "Hi" }],
+      },
+    });
+    assertEquals(anonymous.status, 401);
+    await anonymous.body?.cancel();
+
+    const old = await chat(app, expired.secret);
+    assertEquals(old.status, 401);
+    assertEquals((await old.json()).error.code, "api_key_expired");
+
+    const otherModel = await chat(
+      app,
+      alice.secret,
+      "claude-3-7-sonnet-20250219",
+    );
+    assertEquals(otherModel.status, 403);
+    assertEquals((await otherModel.json()).error.code, "model_not_allowed");
+
+    const first = await chat(app, alice.secret);
+    assertEquals(first.status, 200);
+    const usage = (await first.json()).usage;
+
+    const listed = await request(app, "GET", "/admin/keys", { headers: admin });
+    const keys = (await listed.json()).keys;
+    const aliceSummary = keys.find((key: { name: string }) =>
+      key.name === "alice"
+    );
+    assertEquals(aliceSummary.month_tokens, usage.total_tokens);
+    assertEquals(aliceSummary.key_hash, undefined);
+
+    const overQuota = await chat(app, alice.secret);
+    assertEquals(overQuota.status, 429);
+    assertEquals((await overQuota.json()).error.code, "insufficient_quota");
+
+    const revoked = await request(
+      app,
+      "DELETE",
+      `/admin/keys/${alice.key.id}`,
+      {
+        headers: admin,
+      },
+    );
+    assertEquals(revoked.status, 200);
+    await revoked.body?.cancel();
+    const afterRevoke = await chat(app, alice.secret);
+    assertEquals(afterRevoke.status, 401);
+    await afterRevoke.body?.cancel();
+  } finally {
+    Deno.env.delete("ADMIN_PASSWORD");
+    kv.close();
+    await mock.close();
+  }
+});
@@ -0,0 +1,122 @@
+import {
+  countTokens,
+  stableTokenPrefix,
+  truncateToTokens,
+} from "./tokenizer.ts";
+import { OpenAIRequest } from "./types.ts";
+
+// 在服务端执行的生成限制，上游不支持这两个参数
+export interface CompletionLimits {
+  // 补全文本的token上限，null 表示不限制
+  maxTokens: number | null;
+  stop: string[];
+}
+
+export type CutReason = "stop" | "length";
+
+export function completionLimits(
+  req: Pick<OpenAIRequest, "max_tokens" | "stop">,
+): CompletionLimits {
+  const stop = typeof req.stop === "string" ? [req.stop] : req.stop ?? [];
+  return {
+    maxTokens: req.max_tokens ?? null,
+    stop: stop.filter(Boolean),
+  };
+}
+
+export interface TextCutter {
+  // 追加上游文本，返回可以下发的部分；可能是某个停止序列开头的结尾部分会暂存
+  push(text: string): string;
+  // 上游结束时返回暂存的文本
+  flush(): string;
+  // 达到限制的原因，未达到时为 null；之后的文本全部丢弃
+  readonly finishReason: CutReason | null;
+  // 命中的停止序列，不包含在下发的文本中
+  readonly stopSequence: string | null;
+}
+
+// buffer 结尾可能是某个停止序列开头的最长长度
+function pendingLength(buffer: string, stop: string[]): number {
+  let longest = 0;
+  for (const sequence of stop) {
+    for (
+      let n = Math.min(sequence.length - 1, buffer.length);
+      n > longest;
+      n--
+    ) {
+      if (buffer.endsWith(sequence.slice(0, n))) {
+        longest = n;
+        break;
+      }
+    }
+  }
+  return longest;
+}
+
+export function createTextCutter(limits: CompletionLimits): TextCutter {
+  let pending = "";
+  let finishReason: CutReason | null = null;
+  let stopSequence: string | null = null;
+  // 已下发文本在最后一个分词边界之前的token数，以及边界之后的部分
+  let countedTokens = 0;
+  let tail = "";
+
+  // 按 max_tokens 截断；计数与对已下发的全部文本重新编码一致，与用量统计相同，
+  // 但每次只编码边界之后的部分，避免长输出时反复编码全文
+  const emit = (text: string) => {
+    if (limits.maxTokens !== null && text) {
+      const window = tail + text;
+      if (countedTokens + countTokens(window) > limits.maxTokens) {
+        const kept = truncateToTokens(window, limits.maxTokens - countedTokens);
+        text = kept.slice(Math.min(tail.length, kept.length));
+        finishReason = "length";
+        stopSequence = null;
+      } else {
+        const stable = stableTokenPrefix(window);
+        countedTokens += countTokens(window.slice(0, stable));
+        tail = window.slice(stable);
+      }
+    }
+    return text;
+  };
+
+  return {
+    push(text) {
+      if (finishReason) return "";
+      const buffer = pending + text;
+      pending = "";
+
+      let stopAt = -1;
+      for (const sequence of limits.stop) {
+        const index = buffer.indexOf(sequence);
+        if (index !== -1 && (stopAt === -1 || index < stopAt)) {
+          stopAt = index;
+          stopSequence = sequence;
+        }
+      }
+      if (stopAt !== -1) {
+        finishReason = "stop";
+        return emit(buffer.slice(0, stopAt));
+      }
+
+      const held = pendingLength(buffer, limits.stop);
+      pending = buffer.slice(buffer.length - held);
+      return emit(buffer.slice(0, buffer.length - held));
+    },
+
+    flush() {
+      if (finishReason) return "";
+      const text = pending;
+      pending = "";
+      return emit(text);
+    },
+
+    get finishReason() {
+      return finishReason;
+    },
+
+    get stopSequence() {
+      return stopSequence;
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { assert, assertEquals } from "@std/assert";
+import { completionLimits, createTextCutter } from "./completion_limits.ts";
+import { countTokens, truncateToTokens } from "./tokenizer.ts";
+import { CompletionRequest, OpenAIRequest } from "./types.ts";
+
+function run(chunks: string[], maxTokens: number | null, stop: string[]) {
+  const cutter = createTextCutter({ maxTokens, stop });
+  const out = chunks.map((chunk) => cutter.push(chunk));
+  out.push(cutter.flush());
+  return {
+    out,
+    finishReason: cutter.finishReason,
+    stopSequence: cutter.stopSequence,
+  };
+}
+
+Deno.test("stop sequences are cut even when split across chunks", () => {
+  assertEquals(run(["Hello EN", "D tail"], null, ["END"]), {
+    out: ["Hello ", "", ""],
+    finishReason: "stop",
+    stopSequence: "END",
+  });
+  // 暂存的结尾最终不是停止序列时照常下发
+  assertEquals(run(["Hello EN", "jOY"], null, ["END"]), {
+    out: ["Hello ", "ENjOY", ""],
+    finishReason: null,
+    stopSequence: null,
+  });
+  assertEquals(run(["a E"], null, ["END"]).out, ["a ", "E"]);
+  // 多个停止序列取最早出现的
+  assertEquals(run(["one. two!"], null, ["!", "."]).stopSequence, ".");
+});
+
+Deno.test("max_tokens truncates at the token boundary", () => {
+  const result = run(["hello world ", "hello world"], 3, []);
+  assertEquals(result.out, ["hello world ", "hello", ""]);
+  assertEquals(result.finishReason, "length");
+  assertEquals(countTokens(result.out.join("")), 3);
+
+  // 先达到 max_tokens 时结束原因为 length
+  assertEquals(run(["one two three END"], 2, ["END"]), {
+    out: ["one two", ""],
+    finishReason: "length",
+    stopSequence: null,
+  });
+  assertEquals(run(["short"], 10, []).finishReason, null);
+});
+
+Deno.test("max_tokens stays linear over many small chunks", () => {
+  const chunks = Array.from({ length: 8000 }, (_, i) => `word${i % 7}, `);
+  const full = chunks.join("");
+  const started = Date.now();
+  const result = run(chunks, 10_000, []);
+  assert(Date.now() - started < 2000);
+  assertEquals(result.out.join(""), truncateToTokens(full, 10_000));
+  assertEquals(result.finishReason, "length");
+});
+
+Deno.test("completion limits read max_tokens and stop", () => {
+  const chat: OpenAIRequest = { model: "m", messages: [] };
+  assertEquals(completionLimits(chat), { maxTokens: null, stop: [] });
+  assertEquals(completionLimits({ ...chat, max_tokens: 5, stop: "\n" }), {
+    maxTokens: 5,
+    stop: ["\n"],
+  });
+  assertEquals(completionLimits({ ...chat, stop: ["", "x"] }).stop, ["x"]);
+
+  const completion: CompletionRequest = { model: "m", prompt: "", stop: "x" };
+  assertEquals(completionLimits(completion), { maxTokens: null, stop: ["x"] });
+});
@@ -0,0 +1,38 @@
+import { CompletionChoice, CompletionRequest } from "./types.ts";
+import { detectLanguage } from "./language.ts";
+
+// 上游按对话处理请求，光标前后的代码放在 prefix 与 suffix 中，message 说明需要的输出
+const fillInstruction =
+  "Fill in the code at the cursor between the prefix and the suffix of the current file. " +
+  "Reply with the inserted code only, without explanations or Markdown code fences.";
+const continueInstruction =
+  "Continue the current file from the end of the prefix. " +
+  "Reply with the continuation only, without explanations or Markdown code fences.";
+
+// 补全请求对应的上游字段；未指定 lang 时只按 path 的扩展名判断
+export interface CompletionInput {
+  prefix: string;
+  suffix: string;
+  path: string;
+  lang: string;
+  message: string;
+}
+
+export function toCompletionInput(req: CompletionRequest): CompletionInput {
+  const prefix = typeof req.prompt === "string" ? req.prompt : req.prompt[0];
+  const suffix = req.suffix ?? "";
+  return {
+    prefix,
+    suffix,
+    path: req.metadata?.path ?? "",
+    lang: detectLanguage([], req.metadata),
+    message: suffix ? fillInstruction : continueInstruction,
+  };
+}
+
+export function completionChoice(
+  text: string,
+  finishReason: string | null = null,
+): CompletionChoice {
+  return { text, index: 0, logprobs: null, finish_reason: finishReason };
+}
@@ -0,0 +1,114 @@
+import { assert, assertEquals } from "@std/assert";
+import { textSteps } from "./mock_augment.ts";
+import { request, setup, TestApp } from "./test_helpers.ts";
+import { toCompletionInput } from "./completions.ts";
+import { countPromptTokens, countTokens } from "./tokenizer.ts";
+
+function complete(app: TestApp, body: unknown): Promise<Response> {
+  return request(app, "POST", "/v1/completions", { body });
+}
+
+Deno.test("prompt and suffix map onto the upstream cursor fields", () => {
+  const fill = toCompletionInput({
+    model: "m",
+    prompt: ["def add(a, b):\n    "],
+    suffix: "\n\nprint(add(1, 2))",
+    metadata: { path: "src/add.py", lang: "python" },
+  });
+  assertEquals(fill.prefix, "def add(a, b):\n    ");
+  assertEquals(fill.suffix, "\n\nprint(add(1, 2))");
+  assertEquals(fill.path, "src/add.py");
+  assertEquals(fill.lang, "Python");
+
+  // 没有 metadata 时不猜测语言
+  const tail = toCompletionInput({ model: "m", prompt: "x = " });
+  assertEquals([tail.suffix, tail.path, tail.lang], ["", "", ""]);
+  assert(tail.message !== fill.message);
+});
+
+Deno.test("non-stream /v1/completions returns a text completion", async () => {
+  const env = await setup({ steps: textSteps("return ", "a + b") });
+  try {
+    const res = await complete(env.app, {
+      model: "claude-3.7",
+      prompt: "def add(a, b):\n    ",
+      suffix: "\n",
+      metadata: { path: "add.py", lang: "python" },
+    });
+    assertEquals(res.status, 200);
+    const json = await res.json();
+    assertEquals(json.object, "text_completion");
+    assertEquals(json.choices, [{
+      text: "return a + b",
+      index: 0,
+      logprobs: null,
+      finish_reason: "stop",
+    }]);
+    assertEquals(json.usage.completion_tokens, 4);
+
+    const sent = env.mock.requests[0];
+    // 光标后的代码计入输入
+    assertEquals(
+      json.usage.prompt_tokens,
+      countPromptTokens(sent) + countTokens("\n"),
+    );
+    assertEquals(sent.prefix, "def add(a, b):\n    ");
+    assertEquals(sent.suffix, "\n");
+    assertEquals(sent.path, "add.py");
+    assertEquals(sent.lang, "Python");
+    assertEquals(sent.chatHistory, []);
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("stream /v1/completions emits text chunks and [DONE]", async () => {
+  const env = await setup({ steps: textSteps("a", "b\nc") });
+  try {
+    const res = await complete(env.app, {
+      model: "claude-3.7",
+      prompt: "x = ",
+      stream: true,
+      stop: "\n",
+      stream_options: { include_usage: true },
+    });
+    assertEquals(res.status, 200);
+    const events = (await res.text()).split("\n\n")
+      .filter((block) => block.startsWith("data: "))
+      .map((block) => block.slice("data: ".length));
+    assertEquals(events.at(-1), "[DONE]");
+    const chunks = events.slice(0, -1).map((event) => JSON.parse(event));
+    assert(chunks.every((chunk) => chunk.object === "text_completion"));
+    assertEquals(
+      chunks.map((chunk) => chunk.choices.map((c: { text: string }) => c.text)),
+      [["a"], ["b"], [""], []],
+    );
+    assertEquals(chunks[2].choices[0].finish_reason, "stop");
+    assertEquals(chunks[2].usage, null);
+    assertEquals(chunks[3].usage.completion_tokens, 1);
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("/v1/completions rejects bad prompts before reaching upstream", async () => {
+  const env = await setup({ steps: textSteps("x") });
+  try {
+    const multiple = await complete(env.app, {
+      model: "claude-3.7",
+      prompt: ["a", "b"],
+    });
+    assertEquals(multiple.status, 400);
+    assertEquals((await multiple.json()).error.param, "prompt");
+
+    const missing = await complete(env.app, { model: "claude-3.7" });
+    assertEquals(missing.status, 400);
+    assertEquals(
+      (await missing.json()).error.code,
+      "missing_required_parameter",
+    );
+    assertEquals(env.mock.requests.length, 0);
+  } finally {
+    await env.close();
+  }
+});
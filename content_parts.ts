@@ -0,0 +1,96 @@
+import { ApiError } from "./errors.ts";
+import {
+  ChatMessage,
+  ContentPart,
+  ImageContentPart,
+  ImageFormat,
+  ImageNode,
+  Node,
+  RequestNodeType,
+  TextContentPart,
+} from "./types.ts";
+
+// 上游无法接收的内容块：strict 时返回 400，lenient 时替换为可见的占位文本
+export type ContentPolicy = "strict" | "lenient";
+
+export function loadContentPolicy(): ContentPolicy {
+  return Deno.env.get("UNSUPPORTED_CONTENT") === "lenient"
+    ? "lenient"
+    : "strict";
+}
+
+const imageFormats: Record<string, number> = {
+  "image/png": ImageFormat.PNG,
+  "image/jpeg": ImageFormat.JPEG,
+  "image/jpg": ImageFormat.JPEG,
+  "image/gif": ImageFormat.GIF,
+  "image/webp": ImageFormat.WEBP,
+};
+
+const dataURLPattern = /^data:([\w/+.-]+);base64,(.+)$/s;
+
+function isText(part: ContentPart): part is TextContentPart {
+  return part.type === "text";
+}
+
+function isImage(part: ContentPart): part is ImageContentPart {
+  return part.type === "image_url";
+}
+
+// 只有 user 消息中以 data URL 内嵌的 PNG、JPEG、GIF、WEBP 图片可以转发，返回不支持的原因
+function unsupportedReason(part: ContentPart, role: string): string | null {
+  if (isText(part)) return null;
+  if (!isImage(part)) return `不支持 ${part.type} 类型的内容`;
+  if (role !== "user") return "只有 user 消息可以包含图片";
+  const match = part.image_url.url.match(dataURLPattern);
+  if (!match) return "图片只支持 data URL，不支持远程地址";
+  if (!(match[1] in imageFormats)) return `不支持 ${match[1]} 格式的图片`;
+  return null;
+}
+
+function placeholder(part: ContentPart): TextContentPart {
+  const kind = isImage(part) ? "image" : part.type;
+  return { type: "text", text: `[${kind} omitted: not supported by this API]` };
+}
+
+// 检查所有消息的内容块：可以转发的保留，其余按策略拒绝或替换为占位文本
+export function prepareContentParts(
+  messages: ChatMessage[],
+  policy: ContentPolicy,
+): ChatMessage[] {
+  return messages.map((message, i) => {
+    if (!Array.isArray(message.content)) return message;
+    const content = message.content.map((part, j) => {
+      const reason = unsupportedReason(part, message.role);
+      if (!reason) return part;
+      if (policy === "lenient") return placeholder(part);
+      throw new ApiError(
+        400,
+        "invalid_request_error",
+        reason,
+        "unsupported_content_type",
+        `messages[${i}].content[${j}]`,
+      );
+    });
+    return { ...message, content };
+  });
+}
+
+// 消息中的图片，需先经过 prepareContentParts 检查
+export function messageImages(message: ChatMessage): ImageNode[] {
+  if (!Array.isArray(message.content)) return [];
+  return message.content.filter(isImage).flatMap((part) => {
+    const match = part.image_url.url.match(dataURLPattern);
+    if (!match || !(match[1] in imageFormats)) return [];
+    return [{ imageData: match[2], format: imageFormats[match[1]] }];
+  });
+}
+
+export function imageToNode(image: ImageNode, id: number): Node {
+  return {
+    id,
+    type: RequestNodeType.IMAGE,
+    content: "",
+    imageNode: image,
+  };
+}
@@ -0,0 +1,105 @@
+import { assert, assertEquals } from "@std/assert";
+import { ApiError } from "./errors.ts";
+import { messageImages, prepareContentParts } from "./content_parts.ts";
+import { ChatMessage, ImageFormat } from "./types.ts";
+
+const pngURL = "data:image/png;base64,iVBORw0KGgo=";
+
+function rejection(messages: ChatMessage[]): [string | null, string | null] {
+  try {
+    prepareContentParts(messages, "strict");
+    return [null, null];
+  } catch (error) {
+    assert(error instanceof ApiError);
+    assertEquals(error.status, 400);
+    return [error.param, error.code];
+  }
+}
+
+Deno.test("strict policy rejects parts the upstream cannot take", () => {
+  const cases: [ChatMessage[], string | null][] = [
+    [[{ role: "user", content: "plain" }], null],
+    [[{
+      role: "user",
+      content: [
+        { type: "text", text: "What is this?" },
+        { type: "image_url", image_url: { url: pngURL } },
+      ],
+    }], null],
+    [[{
+      role: "user",
+      content: [{
+        type: "image_url",
+        image_url: { url: "https://example.com/cat.png" },
+      }],
+    }], "messages[0].content[0]"],
+    [[{
+      role: "user",
+      content: [{
+        type: "image_url",
+        image_url: { url: "data:image/bmp;base64,Qk0=" },
+      }],
+    }], "messages[0].content[0]"],
+    [[
+      { role: "user", content: "Hi" },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Listen" },
+          { type: "input_audio", input_audio: { data: "AA==", format: "wav" } },
+        ],
+      },
+    ], "messages[1].content[1]"],
+    [[{
+      role: "user",
+      content: [{ type: "file", file: { file_id: "file-1" } }],
+    }], "messages[0].content[0]"],
+    [[{
+      role: "system",
+      content: [{ type: "image_url", image_url: { url: pngURL } }],
+    }], "messages[0].content[0]"],
+  ];
+  for (const [messages, param] of cases) {
+    assertEquals(
+      rejection(messages),
+      param ? [param, "unsupported_content_type"] : [null, null],
+      JSON.stringify(messages),
+    );
+  }
+});
+
+Deno.test("lenient policy replaces unsupported parts with a placeholder", () => {
+  const [message] = prepareContentParts([{
+    role: "user",
+    content: [
+      { type: "text", text: "Compare " },
+      { type: "image_url", image_url: { url: "https://example.com/a.png" } },
+      { type: "input_audio", input_audio: { data: "AA==", format: "mp3" } },
+    ],
+  }], "lenient");
+  assertEquals(message.content, [
+    { type: "text", text: "Compare " },
+    { type: "text", text: "[image omitted: not supported by this API]" },
+    { type: "text", text: "[input_audio omitted: not supported by this API]" },
+  ]);
+});
+
+Deno.test("inline images become image nodes", () => {
+  assertEquals(
+    messageImages({
+      role: "user",
+      content: [
+        { type: "image_url", image_url: { url: pngURL } },
+        {
+          type: "image_url",
+          image_url: { url: "data:image/jpeg;base64,/9j/4AAQ" },
+        },
+      ],
+    }),
+    [
+      { imageData: "iVBORw0KGgo=", format: ImageFormat.PNG },
+      { imageData: "/9j/4AAQ", format: ImageFormat.JPEG },
+    ],
+  );
+  assertEquals(messageImages({ role: "user", content: "text" }), []);
+});
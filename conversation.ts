@@ -0,0 +1,142 @@
+import { ChatMessage, ImageNode, ToolCall } from "./types.ts";
+import { messageImages } from "./content_parts.ts";
+
+// 消息顺序或角色不合法，对应 400 错误
+export class ConversationError extends Error {
+  constructor(message: string, public index?: number) {
+    super(message);
+    this.name = "ConversationError";
+  }
+}
+
+// 一轮对话：请求侧（用户文本、图片与工具结果）和助手的回复（文本与工具调用）
+export interface Exchange {
+  requestTexts: string[];
+  images: ImageNode[];
+  toolResults: ChatMessage[];
+  responseTexts: string[];
+  toolCalls: ToolCall[];
+  answered: boolean;
+}
+
+export interface NormalizedConversation {
+  // system / developer 消息，按出现顺序合并，写入 userGuideLines
+  guidelines: string;
+  // 已有回复的历史轮次
+  history: Exchange[];
+  // 最后一轮尚未回复的 user / tool 消息，作为当前消息
+  current: Exchange;
+}
+
+const instructionRoles = ["system", "developer"];
+
+// 消息中的文本；其他内容块由 prepareContentParts 处理，图片见 messageImages
+export function getMessageContent(message: ChatMessage): string {
+  if (typeof message.content === "string") {
+    return message.content;
+  } else if (Array.isArray(message.content)) {
+    let result = "";
+    for (const part of message.content) {
+      if (part.type === "text") result += part.text;
+    }
+    return result;
+  }
+  return "";
+}
+
+function newExchange(): Exchange {
+  return {
+    requestTexts: [],
+    images: [],
+    toolResults: [],
+    responseTexts: [],
+    toolCalls: [],
+    answered: false,
+  };
+}
+
+// 按角色整理消息：指令类消息单独提取，连续的同角色消息合并为一轮，
+// role 为 tool 的结果必须紧跟在发起对应调用的助手消息之后
+export function normalizeConversation(
+  messages: ChatMessage[],
+): NormalizedConversation {
+  const guidelines: string[] = [];
+  const exchanges: Exchange[] = [];
+  let current: Exchange | undefined;
+  let hasUserMessage = false;
+  // 上一条助手消息发起、尚未收到结果的调用
+  let pendingCalls: string[] = [];
+
+  messages.forEach((message, index) => {
+    if (instructionRoles.includes(message.role)) {
+      const text = getMessageContent(message);
+      if (text) guidelines.push(text);
+      return;
+    }
+
+    if (message.role === "assistant") {
+      if (!current) {
+        current = newExchange();
+        exchanges.push(current);
+      }
+      const text = getMessageContent(message);
+      if (text) current.responseTexts.push(text);
+      const calls = message.tool_calls ?? [];
+      current.toolCalls.push(...calls);
+      current.answered = true;
+      pendingCalls = calls.map((call) => call.id);
+      return;
+    }
+
+    if (message.role !== "user" && message.role !== "tool") {
+      throw new ConversationError(
+        `messages[${index}] 的 role 不受支持: ${message.role}`,
+        index,
+      );
+    }
+
+    if (message.role === "tool") {
+      const callID = message.tool_call_id ?? "";
+      if (!pendingCalls.includes(callID)) {
+        throw new ConversationError(
+          `messages[${index}] 的 tool_call_id 没有对应的助手工具调用: ${callID}`,
+          index,
+        );
+      }
+      pendingCalls = pendingCalls.filter((id) => id !== callID);
+    } else {
+      pendingCalls = [];
+      hasUserMessage = true;
+    }
+
+    if (!current || current.answered) {
+      current = newExchange();
+      exchanges.push(current);
+    }
+    if (message.role === "tool") {
+      current.toolResults.push(message);
+    } else {
+      const text = getMessageContent(message);
+      if (text) current.requestTexts.push(text);
+      current.images.push(...messageImages(message));
+    }
+  });
+
+  if (!hasUserMessage) {
+    throw new ConversationError("messages 中至少需要一条 user 消息");
+  }
+
+  // 上游需要一条待回复的消息，不支持以助手消息结尾的续写
+  const last = exchanges.at(-1)!;
+  if (last.answered) {
+    throw new ConversationError(
+      "messages 需以 user 或 tool 消息结尾",
+      messages.length - 1,
+    );
+  }
+  return {
+    guidelines: guidelines.join("\n"),
+    history: exchanges.slice(0, -1),
+    current: last,
+  };
+}
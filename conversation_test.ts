@@ -0,0 +1,93 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { ConversationError, normalizeConversation } from "./conversation.ts";
+import { ChatMessage } from "./types.ts";
+
+const weatherCall = {
+  id: "call_1",
+  type: "function" as const,
+  function: { name: "get_weather", arguments: "{}" },
+};
+
+Deno.test("system and developer messages fold into guidelines", () => {
+  const result = normalizeConversation([
+    { role: "system", content: "Be brief." },
+    { role: "user", content: "Hi" },
+    { role: "assistant", content: "Hello" },
+    { role: "developer", content: "Answer in English." },
+    { role: "user", content: "Joke?" },
+  ]);
+
+  assertEquals(result.guidelines, "Be brief.\nAnswer in English.");
+  assertEquals(result.history.length, 1);
+  assertEquals(result.history[0].requestTexts, ["Hi"]);
+  assertEquals(result.history[0].responseTexts, ["Hello"]);
+  assertEquals(result.current.requestTexts, ["Joke?"]);
+});
+
+Deno.test("consecutive same-role messages merge into one turn", () => {
+  const result = normalizeConversation([
+    { role: "user", content: "one" },
+    { role: "user", content: [{ type: "text", text: "two" }] },
+    { role: "assistant", content: "a" },
+    { role: "assistant", content: "b" },
+    { role: "user", content: "three" },
+  ]);
+
+  assertEquals(result.history.length, 1);
+  assertEquals(result.history[0].requestTexts, ["one", "two"]);
+  assertEquals(result.history[0].responseTexts, ["a", "b"]);
+  assertEquals(result.current.requestTexts, ["three"]);
+});
+
+Deno.test("tool results join the turn after the assistant call", () => {
+  const result = normalizeConversation([
+    { role: "user", content: "Weather?" },
+    { role: "assistant", content: null, tool_calls: [weatherCall] },
+    { role: "tool", tool_call_id: "call_1", content: "Sunny" },
+  ]);
+
+  assertEquals(result.history[0].toolCalls, [weatherCall]);
+  assertEquals(result.current.toolResults.map((m) => m.content), ["Sunny"]);
+});
+
+Deno.test("invalid orderings are rejected", () => {
+  const cases: [string, ChatMessage[]][] = [
+    ["system only", [{ role: "system", content: "Be brief." }]],
+    ["no user message", [
+      { role: "system", content: "Be brief." },
+      { role: "assistant", content: "Hello" },
+    ]],
+    ["trailing assistant message", [
+      { role: "user", content: "Hi" },
+      { role: "assistant", content: "Hello" },
+      { role: "user", content: "Bye" },
+      { role: "assistant", content: "Bye" },
+    ]],
+    ["unknown role", [{ role: "narrator", content: "..." }]],
+    ["orphan tool result", [
+      { role: "user", content: "Hi" },
+      { role: "tool", tool_call_id: "call_1", content: "Sunny" },
+    ]],
+    ["tool result after a new user turn", [
+      { role: "user", content: "Weather?" },
+      { role: "assistant", content: null, tool_calls: [weatherCall] },
+      { role: "user", content: "Never mind" },
+      { role: "tool", tool_call_id: "call_1", content: "Sunny" },
+    ]],
+    ["duplicate tool result", [
+      { role: "user", content: "Weather?" },
+      { role: "assistant", content: null, tool_calls: [weatherCall] },
+      { role: "tool", tool_call_id: "call_1", content: "Sunny" },
+      { role: "tool", tool_call_id: "call_1", content: "Rainy" },
+    ]],
+  ];
+
+  for (const [name, messages] of cases) {
+    assertThrows(
+      () => normalizeConversation(messages),
+      ConversationError,
+      undefined,
+      name,
+    );
+  }
+});
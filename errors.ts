@@ -0,0 +1,108 @@
+// OpenAI 兼容的错误类型，对应响应体中的 error.type
+export type ApiErrorType =
+  | "invalid_request_error"
+  | "authentication_error"
+  | "permission_error"
+  | "rate_limit_error"
+  | "api_error"
+  | "server_error";
+
+export interface ApiErrorBody {
+  error: {
+    message: string;
+    type: ApiErrorType;
+    code: string | null;
+    param: string | null;
+  };
+}
+
+// 接口错误，按 {error: {message, type, code, param}} 返回给客户端
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public type: ApiErrorType,
+    message: string,
+    public code: string | null = null,
+    public param: string | null = null,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  toJSON(): ApiErrorBody {
+    return {
+      error: {
+        message: this.message,
+        type: this.type,
+        code: this.code,
+        param: this.param,
+      },
+    };
+  }
+}
+
+export function invalidRequest(
+  message: string,
+  param: string | null = null,
+  code: string | null = null,
+): ApiError {
+  return new ApiError(400, "invalid_request_error", message, code, param);
+}
+
+// 上游返回非 2xx 时按状态码映射；其余 4xx 说明转换后的请求有误，按网关错误处理
+export function upstreamError(status: number, detail = ""): ApiError {
+  const suffix = detail ? `: ${detail.slice(0, 200)}` : "";
+  if (status === 401) {
+    return new ApiError(
+      401,
+      "authentication_error",
+      `上游Token无效或已过期${suffix}`,
+      "upstream_unauthorized",
+    );
+  }
+  if (status === 403) {
+    return new ApiError(
+      403,
+      "permission_error",
+      `上游拒绝访问${suffix}`,
+      "upstream_forbidden",
+    );
+  }
+  if (status === 429) {
+    return new ApiError(
+      429,
+      "rate_limit_error",
+      `上游请求过于频繁${suffix}`,
+      "upstream_rate_limited",
+    );
+  }
+  if (status >= 500) {
+    return new ApiError(
+      status,
+      "api_error",
+      `上游服务错误 ${status}${suffix}`,
+      "upstream_error",
+    );
+  }
+  return new ApiError(
+    502,
+    "api_error",
+    `上游返回 ${status}${suffix}`,
+    "upstream_error",
+  );
+}
+
+// 未识别的异常统一视为服务端错误
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  return new ApiError(
+    500,
+    "server_error",
+    `请求失败: ${error instanceof Error ? error.message : "未知错误"}`,
+  );
+}
+
+// 流式响应中途失败时的最后一个事件
+export function sseErrorEvent(error: ApiError): string {
+  return `data: ${JSON.stringify(error)}\n\n`;
+}
@@ -0,0 +1,208 @@
+// 根据对话内容判断编程语言，填入上游请求的 lang 字段；没有把握时返回空字符串
+import { RequestMetadata } from "./types.ts";
+
+interface LanguageRule {
+  name: string;
+  // 代码块标记（```python）中可能出现的名称，小写
+  fences: string[];
+  extensions: string[];
+  // shebang 中的解释器名称
+  interpreters?: string[];
+  // 只在该语言中出现的语法特征
+  markers?: RegExp[];
+}
+
+const rules: LanguageRule[] = [
+  {
+    name: "Python",
+    fences: ["python", "py", "python3"],
+    extensions: ["py", "pyi", "ipynb"],
+    interpreters: ["python", "python3"],
+    markers: [
+      /^[ \t]*def \w+\(.*\)([ \t]*->[ \t]*[^:\n]+)?:[ \t]*$/m,
+      /^[ \t]*from [\w.]+ import \w/m,
+    ],
+  },
+  {
+    name: "JavaScript",
+    fences: ["javascript", "js", "jsx", "mjs", "node"],
+    extensions: ["js", "jsx", "mjs", "cjs"],
+    interpreters: ["node"],
+    markers: [/\brequire\(["'][^"']+["']\)/, /\bmodule\.exports\b/],
+  },
+  {
+    name: "TypeScript",
+    fences: ["typescript", "ts", "tsx"],
+    extensions: ["ts", "tsx", "mts", "cts"],
+    interpreters: ["deno", "ts-node"],
+    markers: [/^[ \t]*(export )?(interface|type) \w+(<[^>\n]*>)? (=|\{)/m],
+  },
+  {
+    name: "Go",
+    fences: ["go", "golang"],
+    extensions: ["go"],
+    markers: [/^package \w+[ \t]*$/m, /^func (\(\w+ \*?\w+\) )?\w+\(/m],
+  },
+  {
+    name: "Rust",
+    fences: ["rust", "rs"],
+    extensions: ["rs"],
+    markers: [
+      /\bfn \w+(<[^>\n]*>)?\([^)\n]*\)[ \t]*(->[^{\n]+)?\{/,
+      /\blet mut \w+/,
+    ],
+  },
+  {
+    name: "Java",
+    fences: ["java"],
+    extensions: ["java"],
+    markers: [/\bpublic static void main\(String/, /^import java\./m],
+  },
+  {
+    name: "Kotlin",
+    fences: ["kotlin", "kt"],
+    extensions: ["kt", "kts"],
+    markers: [/^[ \t]*fun \w+\(.*\)(: \w+)? [={]/m],
+  },
+  {
+    name: "C",
+    fences: ["c", "h"],
+    extensions: ["c", "h"],
+    markers: [/^#include <(stdio|stdlib|string)\.h>/m],
+  },
+  {
+    name: "C++",
+    fences: ["cpp", "c++", "cxx", "hpp"],
+    extensions: ["cpp", "cc", "cxx", "hpp", "hh"],
+    markers: [/^#include <(iostream|vector|string|memory)>/m, /\bstd::\w+/],
+  },
+  {
+    name: "C#",
+    fences: ["csharp", "cs", "c#"],
+    extensions: ["cs"],
+    markers: [/^using System(\.\w+)*;/m],
+  },
+  {
+    name: "PHP",
+    fences: ["php"],
+    extensions: ["php"],
+    interpreters: ["php"],
+    markers: [/<\?php/],
+  },
+  {
+    name: "Ruby",
+    fences: ["ruby", "rb"],
+    extensions: ["rb"],
+    interpreters: ["ruby"],
+    markers: [/^[ \t]*require ['"][\w/]+['"][ \t]*$/m, /\.each do \|\w+\|/],
+  },
+  {
+    name: "Swift",
+    fences: ["swift"],
+    extensions: ["swift"],
+    markers: [/^import (UIKit|SwiftUI|Foundation)[ \t]*$/m],
+  },
+  {
+    name: "Shell",
+    fences: ["bash", "sh", "shell", "zsh", "console"],
+    extensions: ["sh", "bash", "zsh"],
+    interpreters: ["sh", "bash", "zsh"],
+  },
+  {
+    name: "SQL",
+    fences: ["sql", "postgresql", "mysql"],
+    extensions: ["sql"],
+    markers: [/\bSELECT\b[\s\S]{1,500}?\bFROM\b/, /\bCREATE TABLE\b/],
+  },
+  {
+    name: "HTML",
+    fences: ["html", "htm"],
+    extensions: ["html", "htm"],
+    markers: [/<!DOCTYPE html>/i, /<html[\s>]/i],
+  },
+  {
+    name: "CSS",
+    fences: ["css"],
+    extensions: ["css"],
+  },
+];
+
+// 不同信号的权重：代码块标记与 shebang 最可靠，其次是提到的文件名
+const fenceWeight = 3;
+const shebangWeight = 3;
+const extensionWeight = 2;
+const markerWeight = 1;
+// 每段文本只检查开头和结尾各一部分，长消息的判断开销保持在常数级
+const scanChars = 16 * 1024;
+
+const fencePattern = /^[ \t]*(?:```|~~~)[ \t]*([\w#+.-]+)/gm;
+const shebangPattern = /^#![ \t]*(?:\S*\/)?(?:env[ \t]+)?([\w.-]+)/gm;
+const fileNamePattern = /(?:^|[\s`'"(/])[\w.-]*\.([A-Za-z+]{1,6})\b/g;
+
+function findRule(predicate: (rule: LanguageRule) => boolean) {
+  return rules.find(predicate)?.name;
+}
+
+// 按文件扩展名判断语言，无法识别时返回空字符串
+function languageFromPath(path: string | undefined): string {
+  const extension = path?.match(/\.([^./\\]+)$/)?.[1].toLowerCase();
+  if (!extension) return "";
+  return findRule((rule) => rule.extensions.includes(extension)) ?? "";
+}
+
+// 超过 2 * scanChars 的文本只保留开头和结尾
+function scanWindow(text: string): string {
+  if (text.length <= 2 * scanChars) return text;
+  return `${text.slice(0, scanChars)}\n${text.slice(-scanChars)}`;
+}
+
+// 统计一段文本中各语言的得分
+function scoreText(text: string, scores: Map<string, number>) {
+  const add = (name: string | undefined, weight: number) => {
+    if (name) scores.set(name, (scores.get(name) ?? 0) + weight);
+  };
+  for (const [, tag] of text.matchAll(fencePattern)) {
+    const fence = tag.toLowerCase();
+    add(findRule((rule) => rule.fences.includes(fence)), fenceWeight);
+  }
+  for (const [, interpreter] of text.matchAll(shebangPattern)) {
+    // python3.11 这类带版本号的解释器按名称前缀匹配
+    const name = interpreter.replace(/[\d.]+$/, "");
+    add(
+      findRule((rule) => rule.interpreters?.includes(name) ?? false),
+      shebangWeight,
+    );
+  }
+  for (const [, extension] of text.matchAll(fileNamePattern)) {
+    add(languageFromPath(`.${extension}`), extensionWeight);
+  }
+  for (const rule of rules) {
+    for (const marker of rule.markers ?? []) {
+      if (marker.test(text)) add(rule.name, markerWeight);
+    }
+  }
+}
+
+// 依次使用：metadata.lang（已知的别名换成标准名称）、metadata.path 的扩展名、整个对话的内容；
+// 内容中得分最高的语言不唯一或没有任何信号时返回空字符串
+export function detectLanguage(
+  texts: string[],
+  metadata: RequestMetadata = {},
+): string {
+  const explicit = metadata.lang?.trim();
+  if (explicit) {
+    const alias = explicit.toLowerCase();
+    return findRule((rule) =>
+      rule.name.toLowerCase() === alias || rule.fences.includes(alias)
+    ) ?? explicit;
+  }
+  const fromPath = languageFromPath(metadata.path);
+  if (fromPath) return fromPath;
+
+  const scores = new Map<string, number>();
+  for (const text of texts) scoreText(scanWindow(text), scores);
+  const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0) return "";
+  if (ranked.length > 1 && ranked[0][1] === ranked[1][1]) return "";
+  return ranked[0][0];
+}
@@ -0,0 +1,85 @@
+import { assert, assertEquals } from "@std/assert";
+import { detectLanguage } from "./language.ts";
+import { RequestMetadata } from "./types.ts";
+
+const fence = "```";
+
+Deno.test("language is detected from the conversation content", () => {
+  const cases: [string, string[], string][] = [
+    ["no code at all", ["你好，讲个笑话"], ""],
+    ["the word go is not Go", ["Let's go to the park"], ""],
+    ["a letter c is not C", ["Can you check this?"], ""],
+    ["fenced block tag", [`${fence}python\nprint(1)\n${fence}`], "Python"],
+    ["fence tag alias", [`${fence}ts\nconst a = 1;\n${fence}`], "TypeScript"],
+    ["fence tag is case-insensitive", [`${fence}Rust\n${fence}`], "Rust"],
+    ["closing fence does not read the next line", [`${fence}\ngo on`], ""],
+    ["file extension", ["Why does main.go panic?"], "Go"],
+    ["file path with directories", ["see src/lib/util.rs"], "Rust"],
+    ["shebang", ["#!/usr/bin/env python3\nimport sys"], "Python"],
+    ["shebang with path", ["#!/bin/bash\necho hi"], "Shell"],
+    ["syntax marker", ["<?php echo 1;"], "PHP"],
+    ["C++ marker", ["#include <iostream>\nint main() {}"], "C++"],
+    ["C marker", ["#include <stdio.h>\nint main() {}"], "C"],
+    [
+      "Go markers",
+      ["package main\n\nfunc main() {\n}"],
+      "Go",
+    ],
+    [
+      "signals add up across the conversation",
+      [
+        `${fence}js\nfoo()\n${fence}`,
+        "now port it",
+        `${fence}python\ndef foo():\n    pass\n${fence}`,
+      ],
+      "Python",
+    ],
+    [
+      "a tie is unknown",
+      ["compare a.py with b.rb"],
+      "",
+    ],
+  ];
+  for (const [name, texts, expected] of cases) {
+    assertEquals(detectLanguage(texts), expected, name);
+  }
+});
+
+Deno.test("metadata overrides the detected language", () => {
+  const texts = [`${fence}python\nprint(1)\n${fence}`];
+  const cases: [string, RequestMetadata, string][] = [
+    ["lang alias is normalised", { lang: "golang" }, "Go"],
+    ["lang name is normalised", { lang: "typescript" }, "TypeScript"],
+    ["unknown lang is kept", { lang: "Elixir" }, "Elixir"],
+    ["blank lang is ignored", { lang: "  " }, "Python"],
+    ["path extension", { path: "src/app.tsx" }, "TypeScript"],
+    ["lang wins over path", { lang: "rb", path: "app.py" }, "Ruby"],
+    ["unknown extension falls back to content", { path: "x.txt" }, "Python"],
+  ];
+  for (const [name, metadata, expected] of cases) {
+    assertEquals(detectLanguage(texts, metadata), expected, name);
+  }
+});
+
+Deno.test("pathological input is scanned in bounded time", () => {
+  const inputs = [
+    "\n".repeat(40_000),
+    " \n".repeat(40_000),
+    "def f(\n".repeat(20_000),
+    "type T<\n".repeat(20_000),
+    "fn a(\n".repeat(20_000),
+    "SELECT ".repeat(20_000),
+    "#!\n".repeat(20_000),
+    "x".repeat(1_000_000),
+  ];
+  for (const input of inputs) {
+    const started = Date.now();
+    detectLanguage([input]);
+    assert(Date.now() - started < 500, JSON.stringify(input.slice(0, 10)));
+  }
+  // 长消息中只检查开头和结尾
+  assertEquals(
+    detectLanguage([`${fence}go\n${"x".repeat(100_000)}\n${fence}`]),
+    "Go",
+  );
+});
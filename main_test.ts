@@ -1,6 +1,824 @@
-import { assertEquals } from "@std/assert";
-import { add } from "./main.ts";
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { createApp } from "./main.ts";
+import { textSteps } from "./mock_augment.ts";
+import { request, setup, TestApp } from "./test_helpers.ts";
+import { AugmentClient } from "./upstream.ts";
+import { RequestNodeType, ResponseNodeType } from "./types.ts";
+import { createTokenStore } from "./token_store.ts";
 
-Deno.test(function addTest() {
-  assertEquals(add(2, 3), 5);
+function chat(
+  app: TestApp,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Promise<Response> {
+  return request(app, "POST", "/v1/chat/completions", { body, headers });
+}
+
+// 读取 SSE 响应中的 data 字段；流被中断时返回已读到的部分
+async function readEvents(res: Response): Promise<string[]> {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value, { stream: true });
+    }
+  } catch {
+    // 上游被截断时下游流会报错
+  }
+  return text.split("\n\n")
+    .map((block) => block.trim())
+    .filter((block) => block.startsWith("data: "))
+    .map((block) => block.slice("data: ".length));
+}
+
+const messages = [
+  { role: "user", content: "你好" },
+  { role: "assistant", content: "你好，有什么可以帮你？" },
+  { role: "user", content: "讲个笑话" },
+];
+
+Deno.test("non-stream completion joins upstream chunks", async () => {
+  const env = await setup({ steps: textSteps("Hello", ", ", "world") });
+  try {
+    const res = await chat(env.app, { model: "claude-3.7", messages });
+    assertEquals(res.status, 200);
+    const json = await res.json();
+    assertEquals(json.object, "chat.completion");
+    assertEquals(json.model, "claude-3.7");
+    assertEquals(json.choices[0].message.content, "Hello, world");
+    assertEquals(json.choices[0].finish_reason, "stop");
+    assert(json.usage.total_tokens > 0);
+
+    assertEquals(env.mock.requests.length, 1);
+    const upstreamReq = env.mock.requests[0];
+    assertStringIncludes(upstreamReq.message, "讲个笑话");
+    assertEquals(upstreamReq.chatHistory.length, 1);
+    assertEquals(upstreamReq.chatHistory[0].requestMessage, "你好");
+    assertEquals(
+      env.mock.headers[0].get("authorization"),
+      "Bearer test-token",
+    );
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("stream completion relays chunks and ends with [DONE]", async () => {
+  const env = await setup({ steps: textSteps("Hel", "lo") });
+  try {
+    const res = await chat(env.app, {
+      model: "claude-3.7",
+      messages,
+      stream: true,
+    });
+    assertEquals(res.status, 200);
+    assertStringIncludes(res.headers.get("content-type")!, "text/event-stream");
+
+    const events = await readEvents(res);
+    assertEquals(events.at(-1), "[DONE]");
+    const chunks = events.slice(0, -1).map((e) => JSON.parse(e));
+    assertEquals(
+      chunks.map((c) => c.choices[0].delta.content).join(""),
+      "Hello",
+    );
+    assertEquals(chunks[0].object, "chat.completion.chunk");
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("include_usage appends a usage chunk before [DONE]", async () => {
+  const env = await setup({ steps: textSteps("hello", " world") });
+  try {
+    const res = await chat(env.app, {
+      model: "claude-3.7",
+      messages,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    const events = await readEvents(res);
+    assertEquals(events.at(-1), "[DONE]");
+    const chunks = events.slice(0, -1).map((e) => JSON.parse(e));
+
+    const usageChunk = chunks.at(-1);
+    assertEquals(usageChunk.choices, []);
+    assertEquals(usageChunk.usage.completion_tokens, 2);
+    assert(usageChunk.usage.prompt_tokens > 0);
+    assertEquals(
+      usageChunk.usage.total_tokens,
+      usageChunk.usage.prompt_tokens + 2,
+    );
+    for (const chunk of chunks.slice(0, -1)) {
+      assertEquals(chunk.usage, null);
+    }
+
+    // 未开启时不带 usage 字段
+    const plain = await chat(env.app, {
+      model: "claude-3.7",
+      messages,
+      stream: true,
+    });
+    for (const event of (await readEvents(plain)).slice(0, -1)) {
+      assertEquals("usage" in JSON.parse(event), false);
+    }
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("slow upstream chunks are still relayed in order", async () => {
+  const env = await setup({
+    steps: [
+      { line: { text: "a", done: false } },
+      { delay: 50 },
+      { line: { text: "b", done: false } },
+      { delay: 50 },
+      { line: { text: "c", done: true } },
+    ],
+  });
+  try {
+    const res = await chat(env.app, {
+      model: "claude-3.7",
+      messages,
+      stream: true,
+    });
+    const events = await readEvents(res);
+    const text = events.slice(0, -1)
+      .map((e) => JSON.parse(e).choices[0].delta.content)
+      .join("");
+    assertEquals(text, "abc");
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("upstream line split across writes is reassembled", async () => {
+  const env = await setup({
+    steps: [
+      { raw: '{"text":"par' },
+      { delay: 20 },
+      { raw: 'tial","done":false}\n' },
+      { line: { text: "!", done: true } },
+    ],
+  });
+  try {
+    const res = await chat(env.app, { model: "claude-3.7", messages });
+    const json = await res.json();
+    assertEquals(json.choices[0].message.content, "partial!");
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("non-stream reading stops at done and parses an unterminated tail", async () => {
+  const afterDone: AugmentClient = {
+    chatStream: () =>
+      Promise.resolve(
+        new Response(
+          '{"text":"a","done":false}\n{"text":"b","done":true}\n{"text":"late","done":false}',
+        ),
+      ),
+  };
+  const tail: AugmentClient = {
+    chatStream: () =>
+      Promise.resolve(new Response('{"text":"x","done":false}\n{"text":"y"}')),
+  };
+  const kv = await Deno.openKv(":memory:");
+  await createTokenStore(kv).save("t", "https://tenant.invalid/");
+  try {
+    const stopped = await chat(createApp({ kv, client: afterDone }), {
+      model: "claude-3.7",
+      messages,
+    });
+    assertEquals((await stopped.json()).choices[0].message.content, "ab");
+
+    const flushed = await chat(createApp({ kv, client: tail }), {
+      model: "claude-3.7",
+      messages,
+    });
+    assertEquals((await flushed.json()).choices[0].message.content, "xy");
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("malformed upstream lines are skipped", async () => {
+  const env = await setup({
+    steps: [
+      { line: { text: "ok", done: false } },
+      { raw: "not json\n" },
+      { line: { text: "!", done: true } },
+    ],
+  });
+  try {
+    const res = await chat(env.app, { model: "claude-3.7", messages });
+    const json = await res.json();
+    assertEquals(json.choices[0].message.content, "ok!");
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("upstream error statuses map to OpenAI errors", async () => {
+  const cases: [number, number, string][] = [
+    [401, 401, "authentication_error"],
+    [403, 403, "permission_error"],
+    [429, 429, "rate_limit_error"],
+    [500, 500, "api_error"],
+    [503, 503, "api_error"],
+    [400, 502, "api_error"],
+  ];
+  for (const [upstream, status, type] of cases) {
+    const env = await setup({ status: upstream, errorBody: "boom" });
+    try {
+      for (const stream of [false, true]) {
+        const res = await chat(env.app, {
+          model: "claude-3.7",
+          messages,
+          stream,
+        });
+        assertEquals(res.status, status, `upstream ${upstream}`);
+        assertStringIncludes(res.headers.get("content-type")!, "json");
+        const json = await res.json();
+        assertEquals(json.error.type, type);
+        assertEquals(json.error.param, null);
+        assertStringIncludes(json.error.message, "boom");
+      }
+    } finally {
+      await env.close();
+    }
+  }
+});
+
+Deno.test("no stored token is a 503 error, not a 200", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const res = await chat(createApp({ kv }), {
+      model: "claude-3.7",
+      messages,
+    });
+    assertEquals(res.status, 503);
+    assertEquals((await res.json()).error.code, "no_available_token");
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("invalid JSON and bad messages are 400 errors", async () => {
+  const env = await setup({ steps: textSteps("hi") });
+  try {
+    const res = await env.app.handle(
+      new Request("http://localhost/v1/chat/completions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: "{not json",
+      }),
+    );
+    assertEquals(res?.status, 400);
+    assertEquals((await res!.json()).error.type, "invalid_request_error");
+
+    const bad = await chat(env.app, {
+      model: "claude-3.7",
+      messages: [{ role: "tool", tool_call_id: "x", content: "orphan" }],
+    });
+    const json = await bad.json();
+    assertEquals(json.error.param, "messages");
+    assertEquals(json.error.code, "invalid_messages");
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("requests are validated before reaching upstream", async () => {
+  const env = await setup({ steps: textSteps("hi") }, {
+    requestLimits: { maxBodyBytes: 200 },
+  });
+  try {
+    const { app, mock } = env;
+
+    const missing = await chat(app, { model: "claude-3.7" });
+    assertEquals(missing.status, 400);
+    const missingError = (await missing.json()).error;
+    assertEquals(missingError.param, "messages");
+    assertEquals(missingError.code, "missing_required_parameter");
+
+    const tooLarge = await chat(app, {
+      model: "claude-3.7",
+      messages: [{ role: "user", content: "x".repeat(300) }],
+    });
+    assertEquals(tooLarge.status, 413);
+    assertEquals((await tooLarge.json()).error.code, "request_too_large");
+
+    // 分块传输、未声明长度的请求体在读取时计数
+    const encoder = new TextEncoder();
+    const chunked = await app.handle(
+      new Request("http://localhost/v1/chat/completions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: new ReadableStream({
+          start(controller) {
+            for (let i = 0; i < 10; i++) {
+              controller.enqueue(encoder.encode(" ".repeat(50)));
+            }
+            controller.close();
+          },
+        }),
+      }),
+    );
+    assertEquals(chunked?.status, 413);
+    assertEquals((await chunked!.json()).error.code, "request_too_large");
+
+    const badLength = await chat(app, { model: "claude-3.7", messages }, {
+      "Content-Length": "abc",
+    });
+    assertEquals(badLength.status, 400);
+    assertEquals((await badLength.json()).error.code, "invalid_content_length");
+
+    assertEquals(mock.requests.length, 0);
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("a stop sequence ends the completion without waiting for upstream", async () => {
+  const env = await setup({
+    steps: [
+      { line: { text: "one\ntwo", done: false } },
+      { delay: 2000 },
+      { line: { text: "three", done: true } },
+    ],
+  });
+  try {
+    const started = Date.now();
+    const res = await chat(env.app, {
+      model: "claude-3.7",
+      messages,
+      stop: "\n",
+    });
+    const json = await res.json();
+    assertEquals(json.choices[0].message.content, "one");
+    assertEquals(json.choices[0].finish_reason, "stop");
+    assert(Date.now() - started < 1500);
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("unsupported parameters are ignored or rejected by policy", async () => {
+  const env = await setup({ steps: textSteps("hi") });
+  try {
+    const { kv, mock } = env;
+    const body = { model: "claude-3.7", messages, temperature: 0.2, n: 1 };
+
+    const lenient = await chat(createApp({ kv, paramPolicy: "lenient" }), body);
+    assertEquals(lenient.status, 200);
+    assertEquals(lenient.headers.get("x-ignored-params"), "temperature");
+    await lenient.body?.cancel();
+
+    const strict = await chat(createApp({ kv, paramPolicy: "strict" }), body);
+    assertEquals(strict.status, 400);
+    const error = (await strict.json()).error;
+    assertEquals(error.param, "temperature");
+    assertEquals(error.code, "unsupported_parameter");
+    assertEquals(mock.requests.length, 1);
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("truncated upstream fails a non-stream request", async () => {
+  const env = await setup({
+    steps: [{ line: { text: "half", done: false } }, { truncate: true }],
+  });
+  try {
+    const res = await chat(env.app, { model: "claude-3.7", messages });
+    assertEquals(res.status, 502);
+    assertEquals((await res.json()).error.code, "upstream_interrupted");
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("truncated upstream ends the stream with an error event", async () => {
+  const env = await setup({
+    steps: [{ line: { text: "half", done: false } }, { truncate: true }],
+  });
+  try {
+    const res = await chat(env.app, {
+      model: "claude-3.7",
+      messages,
+      stream: true,
+    });
+    const events = await readEvents(res);
+    assert(!events.includes("[DONE]"));
+    const last = JSON.parse(events.at(-1)!);
+    assertEquals(last.error.code, "upstream_interrupted");
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("OAUTH_TOKEN guards the completions route", async () => {
+  const env = await setup({ steps: textSteps("hi") });
+  Deno.env.set("OAUTH_TOKEN", "secret");
+  try {
+    const denied = await chat(env.app, { model: "claude-3.7", messages });
+    assertEquals(denied.status, 401);
+    await denied.body?.cancel();
+
+    const allowed = await chat(env.app, { model: "claude-3.7", messages }, {
+      Authorization: "Bearer secret",
+    });
+    assertEquals(allowed.status, 200);
+    await allowed.body?.cancel();
+  } finally {
+    Deno.env.delete("OAUTH_TOKEN");
+    await env.close();
+  }
+});
+
+Deno.test("a custom upstream client can be injected", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await createTokenStore(kv).save("t", "https://tenant.invalid/");
+  const seen: string[] = [];
+  const client: AugmentClient = {
+    chatStream(target) {
+      seen.push(target.tenant_url);
+      return Promise.resolve(
+        new Response(JSON.stringify({ text: "injected", done: true }) + "\n"),
+      );
+    },
+  };
+  try {
+    const res = await chat(createApp({ kv, client }), {
+      model: "claude-3.7",
+      messages,
+    });
+    const json = await res.json();
+    assertEquals(json.choices[0].message.content, "injected");
+    assertEquals(seen, ["https://tenant.invalid/"]);
+  } finally {
+    kv.close();
+  }
+});
+
+// 先输出给定的行，之后保持连接不再发送数据；记录请求是否被中止
+function stalledClient(...lines: unknown[]) {
+  const signals: AbortSignal[] = [];
+  const client: AugmentClient = {
+    chatStream(_target, _req, signal) {
+      if (signal) signals.push(signal);
+      const encoder = new TextEncoder();
+      return Promise.resolve(
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              for (const line of lines) {
+                controller.enqueue(encoder.encode(JSON.stringify(line) + "\n"));
+              }
+            },
+          }),
+        ),
+      );
+    },
+  };
+  return { client, signals };
+}
+
+const shortTimeouts = { connectMs: 100, firstByteMs: 100, idleMs: 100 };
+
+Deno.test("stalled upstream times out with a 504", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await createTokenStore(kv).save("t", "https://tenant.invalid/");
+  const { client, signals } = stalledClient();
+  try {
+    const app = createApp({ kv, client, timeouts: shortTimeouts });
+    const res = await chat(app, { model: "claude-3.7", messages });
+    assertEquals(res.status, 504);
+    assertEquals((await res.json()).error.code, "upstream_timeout");
+    assert(signals[0].aborted);
+
+    const hung = createApp({
+      kv,
+      client: { chatStream: () => new Promise(() => {}) },
+      timeouts: shortTimeouts,
+    });
+    const connect = await chat(hung, { model: "claude-3.7", messages });
+    assertEquals(connect.status, 504);
+    await connect.body?.cancel();
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("idle upstream ends the stream with a timeout event", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await createTokenStore(kv).save("t", "https://tenant.invalid/");
+  const { client, signals } = stalledClient({ text: "half", done: false });
+  try {
+    const app = createApp({ kv, client, timeouts: shortTimeouts });
+    const res = await chat(app, {
+      model: "claude-3.7",
+      messages,
+      stream: true,
+    });
+    const events = await readEvents(res);
+    assert(!events.includes("[DONE]"));
+    assertEquals(JSON.parse(events.at(-1)!).error.code, "upstream_timeout");
+    assert(signals[0].aborted);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("client disconnect aborts the upstream stream", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await createTokenStore(kv).save("t", "https://tenant.invalid/");
+  const { client, signals } = stalledClient({ text: "half", done: false });
+  try {
+    const app = createApp({
+      kv,
+      client,
+      timeouts: { ...shortTimeouts, idleMs: 60_000 },
+    });
+    const res = await chat(app, {
+      model: "claude-3.7",
+      messages,
+      stream: true,
+    });
+    const reader = res.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+    // oak 通过管道转发响应体，取消信号异步传到上游
+    for (let i = 0; i < 50 && !signals[0].aborted; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    assert(signals[0].aborted);
+  } finally {
+    kv.close();
+  }
+});
+
+const weatherTool = {
+  type: "function",
+  function: {
+    name: "get_weather",
+    description: "Get the weather",
+    parameters: { type: "object", properties: { city: { type: "string" } } },
+  },
+};
+
+const toolUseLine = {
+  text: "",
+  done: true,
+  nodes: [{
+    id: 1,
+    type: ResponseNodeType.TOOL_USE,
+    content: "",
+    toolUse: {
+      toolUseID: "call_1",
+      toolName: "get_weather",
+      inputJSON: '{"city":"Paris"}',
+    },
+  }],
+};
+
+Deno.test("client tools are forwarded and tool uses returned", async () => {
+  const env = await setup({
+    steps: [{ line: { text: "Checking.", done: false } }, {
+      line: toolUseLine,
+    }],
+  });
+  try {
+    const res = await chat(env.app, {
+      model: "claude-3.7",
+      messages: [{ role: "user", content: "Weather in Paris?" }],
+      tools: [weatherTool],
+    });
+    const json = await res.json();
+    const choice = json.choices[0];
+    assertEquals(choice.finish_reason, "tool_calls");
+    assertEquals(choice.message.content, "Checking.");
+    assertEquals(choice.message.tool_calls, [{
+      id: "call_1",
+      type: "function",
+      function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+    }]);
+
+    const upstreamReq = env.mock.requests[0];
+    assertEquals(upstreamReq.toolDefinitions?.map((d) => d.name), [
+      "get_weather",
+    ]);
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("tool calls are streamed as incremental deltas", async () => {
+  const env = await setup({ steps: [{ line: toolUseLine }] });
+  try {
+    const res = await chat(env.app, {
+      model: "claude-3.7",
+      messages: [{ role: "user", content: "Weather in Paris?" }],
+      tools: [weatherTool],
+      stream: true,
+    });
+    const events = await readEvents(res);
+    assertEquals(events.at(-1), "[DONE]");
+    const chunks = events.slice(0, -1).map((e) => JSON.parse(e));
+    const toolDeltas = chunks.flatMap((c) =>
+      c.choices[0].delta.tool_calls ?? []
+    );
+    assertEquals(toolDeltas[0].id, "call_1");
+    assertEquals(toolDeltas[0].function.name, "get_weather");
+    assertEquals(
+      toolDeltas.map((d) => d.function.arguments).join(""),
+      '{"city":"Paris"}',
+    );
+    assertEquals(chunks.at(-1).choices[0].finish_reason, "tool_calls");
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("tool results map into request nodes", async () => {
+  const env = await setup({ steps: textSteps("It is sunny.") });
+  try {
+    const res = await chat(env.app, {
+      model: "claude-3.7",
+      tools: [weatherTool],
+      messages: [
+        { role: "user", content: "Weather in Paris?" },
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [{
+            id: "call_1",
+            type: "function",
+            function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+          }],
+        },
+        { role: "tool", tool_call_id: "call_1", content: "sunny" },
+      ],
+    });
+    assertEquals((await res.json()).choices[0].message.content, "It is sunny.");
+
+    const upstreamReq = env.mock.requests[0];
+    assertEquals(upstreamReq.chatHistory.length, 1);
+    const history = upstreamReq.chatHistory[0];
+    assertEquals(history.requestMessage, "Weather in Paris?");
+    assertEquals(history.responseNodes?.[1].toolUse?.toolUseID, "call_1");
+    assertEquals(upstreamReq.nodes?.[0].type, RequestNodeType.TOOL_RESULT);
+    assertEquals(upstreamReq.nodes?.[0].toolResult, {
+      toolUseID: "call_1",
+      content: "sunny",
+      isError: false,
+    });
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("inline images are sent as image nodes and audio is rejected", async () => {
+  const env = await setup({ steps: textSteps("A cat.") });
+  try {
+    const res = await chat(env.app, {
+      model: "claude-3.7",
+      messages: [{
+        role: "user",
+        content: [
+          { type: "text", text: "What is this?" },
+          {
+            type: "image_url",
+            image_url: { url: "data:image/png;base64,iVBORw0KGgo=" },
+          },
+        ],
+      }],
+    });
+    assertEquals((await res.json()).choices[0].message.content, "A cat.");
+    const upstreamReq = env.mock.requests[0];
+    assertEquals(upstreamReq.message, "What is this?");
+    assertEquals(upstreamReq.nodes?.[0].type, RequestNodeType.IMAGE);
+    assertEquals(upstreamReq.nodes?.[0].imageNode, {
+      imageData: "iVBORw0KGgo=",
+      format: 1,
+    });
+
+    const audio = await chat(env.app, {
+      model: "claude-3.7",
+      messages: [{
+        role: "user",
+        content: [{
+          type: "input_audio",
+          input_audio: { data: "AA==", format: "wav" },
+        }],
+      }],
+    });
+    assertEquals(audio.status, 400);
+    const error = (await audio.json()).error;
+    assertEquals(error.code, "unsupported_content_type");
+    assertEquals(error.param, "messages[0].content[0]");
+    assertEquals(env.mock.requests.length, 1);
+  } finally {
+    await env.close();
+  }
+});
+
+const thinkingSteps = [
+  {
+    line: {
+      text: "",
+      done: false,
+      nodes: [{
+        id: 1,
+        type: ResponseNodeType.THINKING,
+        content: "",
+        thinking: { summary: "The user wants a joke." },
+      }],
+    },
+  },
+  {
+    line: {
+      text: "Knock knock.",
+      done: true,
+      nodes: [{
+        id: 2,
+        type: ResponseNodeType.AGENT_MEMORY,
+        content: "",
+        agentMemory: { content: "Likes jokes." },
+      }],
+    },
+  },
+];
+
+Deno.test("thinking and node metadata are exposed unless stripped", async () => {
+  const env = await setup({ steps: thinkingSteps }, {
+    extensionPolicy: "expose",
+  });
+  try {
+    const { app, kv } = env;
+
+    const stream = await chat(app, {
+      model: "claude-3.7",
+      messages,
+      stream: true,
+    });
+    const deltas = (await readEvents(stream)).slice(0, -1)
+      .map((e) => JSON.parse(e).choices[0].delta);
+    assertEquals(deltas.slice(0, 4), [
+      { role: "assistant" },
+      { reasoning_content: "The user wants a joke." },
+      { content: "Knock knock." },
+      { augment_nodes: [thinkingSteps[1].line.nodes[0]] },
+    ]);
+
+    const plain = await (await chat(app, { model: "claude-3.7", messages }))
+      .json();
+    assertEquals(
+      plain.choices[0].message.reasoning_content,
+      "The user wants a joke.",
+    );
+    assertEquals(plain.choices[0].message.augment_nodes[0].agentMemory, {
+      content: "Likes jokes.",
+    });
+
+    const strict = createApp({ kv, extensionPolicy: "strip" });
+    const stripped =
+      await (await chat(strict, { model: "claude-3.7", messages }))
+        .json();
+    assertEquals(stripped.choices[0].message, {
+      role: "assistant",
+      content: "Knock knock.",
+    });
+  } finally {
+    await env.close();
+  }
+});
+
+Deno.test("system messages become guidelines and bad ordering is a 400", async () => {
+  const env = await setup({ steps: textSteps("ok") });
+  try {
+    const res = await chat(env.app, {
+      model: "claude-3.7",
+      messages: [{ role: "system", content: "Reply in haiku." }, ...messages],
+    });
+    assertEquals(res.status, 200);
+    await res.body?.cancel();
+    const upstreamReq = env.mock.requests[0];
+    assertStringIncludes(upstreamReq.userGuideLines ?? "", "Reply in haiku.");
+    assertEquals(upstreamReq.chatHistory[0].requestMessage, "你好");
+
+    const bad = await chat(env.app, {
+      model: "claude-3.7",
+      messages: [{ role: "tool", tool_call_id: "x", content: "orphan" }],
+    });
+    assertEquals(bad.status, 400);
+    await bad.body?.cancel();
+    assertEquals(env.mock.requests.length, 1);
+  } finally {
+    await env.close();
+  }
 });
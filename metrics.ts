@@ -0,0 +1,265 @@
+import { Context, Router } from "https://deno.land/x/oak@v12.6.2/mod.ts";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { isAdminRequest } from "./admin_auth.ts";
+
+// Prometheus 文本格式的指标，只统计当前实例
+
+type Labels = Record<string, string>;
+
+function escapeLabel(value: string): string {
+  return value.replaceAll("\\", "\\\\").replaceAll('"', '\\"')
+    .replaceAll("\n", "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels)
+    .map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+interface Metric {
+  render(): string;
+}
+
+class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private name: string, private help: string) {}
+
+  inc(labels: Labels = {}, amount = 1) {
+    const id = formatLabels(labels);
+    const entry = this.values.get(id) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(id, entry);
+  }
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+    ];
+    for (const [id, { value }] of this.values) {
+      lines.push(`${this.name}${id} ${value}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+class Gauge implements Metric {
+  private value = 0;
+
+  constructor(private name: string, private help: string) {}
+
+  inc(amount = 1) {
+    this.value += amount;
+  }
+
+  dec(amount = 1) {
+    this.value -= amount;
+  }
+
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      `${this.name} ${this.value}`,
+    ].join("\n");
+  }
+}
+
+class Histogram implements Metric {
+  private series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    private name: string,
+    private help: string,
+    private buckets: number[],
+  ) {}
+
+  observe(labels: Labels, value: number) {
+    const id = formatLabels(labels);
+    let entry = this.series.get(id);
+    if (!entry) {
+      entry = {
+        labels,
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(id, entry);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        const le = formatLabels({ ...labels, le: String(bound) });
+        lines.push(`${this.name}_bucket${le} ${counts[i]}`);
+      });
+      lines.push(
+        `${this.name}_bucket${
+          formatLabels({ ...labels, le: "+Inf" })
+        } ${count}`,
+      );
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+export interface CompletionObservation {
+  route: string;
+  model: string;
+  status: number;
+  durationSeconds: number;
+  // 错误码，用于统计上游错误
+  code?: string | null;
+}
+
+export interface ServiceMetrics {
+  observeCompletion(observation: CompletionObservation): void;
+  observeFirstToken(route: string, seconds: number): void;
+  streamStarted(): void;
+  streamEnded(): void;
+  render(): string;
+}
+
+export function createServiceMetrics(): ServiceMetrics {
+  const requests = new Counter(
+    "augment2api_requests_total",
+    "Completion requests by route, model and status.",
+  );
+  const duration = new Histogram(
+    "augment2api_request_duration_seconds",
+    "Completion request duration, including the whole stream.",
+    [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+  );
+  const firstToken = new Histogram(
+    "augment2api_time_to_first_token_seconds",
+    "Time from request start to the first streamed chunk.",
+    [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  );
+  const upstreamErrors = new Counter(
+    "augment2api_upstream_errors_total",
+    "Upstream failures by error code.",
+  );
+  const activeStreams = new Gauge(
+    "augment2api_active_streams",
+    "Streaming responses currently in progress.",
+  );
+  const metrics: Metric[] = [
+    requests,
+    duration,
+    firstToken,
+    upstreamErrors,
+    activeStreams,
+  ];
+
+  return {
+    observeCompletion({ route, model, status, durationSeconds, code }) {
+      requests.inc({ route, model, status: String(status) });
+      duration.observe({ route }, durationSeconds);
+      if (code?.startsWith("upstream_")) upstreamErrors.inc({ code });
+    },
+
+    observeFirstToken(route, seconds) {
+      firstToken.observe({ route }, seconds);
+    },
+
+    streamStarted() {
+      activeStreams.inc();
+    },
+
+    streamEnded() {
+      activeStreams.dec();
+    },
+
+    render() {
+      return metrics.map((metric) => metric.render()).join("\n") + "\n";
+    },
+  };
+}
+
+// 抓取凭据来自 METRICS_TOKEN 环境变量，以 Authorization: Bearer 提交
+function isScrapeRequest(ctx: Context): boolean {
+  const token = Deno.env.get("METRICS_TOKEN");
+  const authHeader = ctx.request.headers.get("authorization");
+  if (!token || !authHeader?.startsWith("Bearer ")) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(
+    digest(authHeader.slice("Bearer ".length)),
+    digest(token),
+  );
+}
+
+// 检查 KV 能否读取，write 为 true 时同时检查写入
+async function checkKv(kv: Deno.Kv, write: boolean): Promise<string | null> {
+  try {
+    if (write) {
+      await kv.set(["health_check"], Date.now(), { expireIn: 60 * 1000 });
+    }
+    await kv.get(["health_check"]);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// 注册 /metrics、/healthz 与 /readyz
+export function registerMetricsRoutes(
+  router: Router,
+  kv: Deno.Kv,
+  metrics: ServiceMetrics,
+) {
+  router.get("/metrics", async (ctx) => {
+    if (!Deno.env.get("METRICS_TOKEN") && !Deno.env.get("ADMIN_PASSWORD")) {
+      ctx.response.status = 503;
+      ctx.response.body = {
+        status: "error",
+        message: "未配置METRICS_TOKEN或ADMIN_PASSWORD，指标接口已禁用",
+      };
+      return;
+    }
+    if (!isScrapeRequest(ctx) && !(await isAdminRequest(kv, ctx))) {
+      ctx.response.status = 401;
+      ctx.response.body = {
+        status: "error",
+        message: "Unauthorized",
+      };
+      return;
+    }
+    ctx.response.type = "text/plain; version=0.0.4";
+    ctx.response.body = metrics.render();
+  });
+
+  // 存活检查：进程能处理请求且 KV 可读
+  router.get("/healthz", async (ctx) => {
+    const kvError = await checkKv(kv, false);
+    ctx.response.status = kvError ? 503 : 200;
+    ctx.response.body = kvError
+      ? { status: "error", message: `KV不可用: ${kvError}` }
+      : { status: "ok" };
+  });
+
+  // 就绪检查：KV 可读写；无需鉴权，不返回存储内容相关的信息
+  router.get("/readyz", async (ctx) => {
+    const kvError = await checkKv(kv, true);
+    ctx.response.status = kvError ? 503 : 200;
+    ctx.response.body = kvError
+      ? { status: "error", message: `KV不可用: ${kvError}` }
+      : { status: "ok" };
+  });
+}
@@ -0,0 +1,117 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { createApp } from "./main.ts";
+import { startMockAugment, textSteps } from "./mock_augment.ts";
+import { createServiceMetrics } from "./metrics.ts";
+import { createTokenStore } from "./token_store.ts";
+import { request } from "./test_helpers.ts";
+
+Deno.test("metrics render in the Prometheus text format", () => {
+  const metrics = createServiceMetrics();
+  metrics.observeCompletion({
+    route: "/v1/chat/completions",
+    model: 'say "hi"',
+    status: 502,
+    durationSeconds: 0.3,
+    code: "upstream_interrupted",
+  });
+  metrics.streamStarted();
+  const text = metrics.render();
+  assertStringIncludes(
+    text,
+    'augment2api_requests_total{route="/v1/chat/completions",model="say \\"hi\\"",status="502"} 1',
+  );
+  assertStringIncludes(
+    text,
+    'augment2api_request_duration_seconds_bucket{route="/v1/chat/completions",le="0.25"} 0',
+  );
+  assertStringIncludes(
+    text,
+    'augment2api_request_duration_seconds_bucket{route="/v1/chat/completions",le="0.5"} 1',
+  );
+  assertStringIncludes(
+    text,
+    'augment2api_upstream_errors_total{code="upstream_interrupted"} 1',
+  );
+  assertStringIncludes(text, "augment2api_active_streams 1");
+});
+
+Deno.test("health and readiness check KV", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const app = createApp({ kv });
+    const health = await request(app, "GET", "/healthz");
+    assertEquals(await health.json(), { status: "ok" });
+    // 就绪检查不读取Token，也不返回Token数量
+    await createTokenStore(kv).save("stored-token", "https://tenant.invalid/");
+    const ready = await request(app, "GET", "/readyz");
+    assertEquals(await ready.json(), { status: "ok" });
+
+    kv.close();
+    const down = await request(app, "GET", "/readyz");
+    assertEquals(down.status, 503);
+    await down.body?.cancel();
+  } finally {
+    try {
+      kv.close();
+    } catch {
+      // 已关闭
+    }
+  }
+});
+
+Deno.test("completions are counted and scraped with the metrics token", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const mock = startMockAugment((req) =>
+    req.message === "fail"
+      ? { status: 500, errorBody: "boom" }
+      : { steps: textSteps("hello", " world") }
+  );
+  Deno.env.set("METRICS_TOKEN", "scrape");
+  try {
+    await createTokenStore(kv).save("test-token", mock.url);
+    const app = createApp({ kv });
+    for (
+      const [content, stream] of [["Hi", true], ["Hi", false], ["fail", false]]
+    ) {
+      const res = await request(app, "POST", "/v1/chat/completions", {
+        body: {
+          model: "claude-3.7",
+          messages: [{ role: "user", content }],
+          stream,
+        },
+      });
+      await res.text();
+    }
+
+    const anonymous = await request(app, "GET", "/metrics");
+    assertEquals(anonymous.status, 401);
+    await anonymous.body?.cancel();
+
+    const scraped = await request(app, "GET", "/metrics", {
+      headers: { Authorization: "Bearer scrape" },
+    });
+    assertEquals(scraped.status, 200);
+    const text = await scraped.text();
+    assertStringIncludes(
+      text,
+      'augment2api_requests_total{route="/v1/chat/completions",model="claude-3.7",status="200"} 2',
+    );
+    assertStringIncludes(
+      text,
+      'augment2api_requests_total{route="/v1/chat/completions",model="claude-3.7",status="500"} 1',
+    );
+    assertStringIncludes(
+      text,
+      'augment2api_upstream_errors_total{code="upstream_error"} 1',
+    );
+    assertStringIncludes(
+      text,
+      'augment2api_time_to_first_token_seconds_count{route="/v1/chat/completions"} 1',
+    );
+    assertStringIncludes(text, "augment2api_active_streams 0");
+  } finally {
+    Deno.env.delete("METRICS_TOKEN");
+    kv.close();
+    await mock.close();
+  }
+});
@@ -0,0 +1,113 @@
+import { AugmentRequest, AugmentResponse } from "./types.ts";
+
+// 模拟上游的脚本步骤
+export type MockStep =
+  | { line: AugmentResponse } // 输出一行 NDJSON
+  | { raw: string } // 原样输出（可用于构造半行、非法 JSON）
+  | { delay: number } // 暂停若干毫秒，模拟慢速分块
+  | { truncate: true }; // 直接中断连接，模拟被截断的流
+
+export interface MockScript {
+  status?: number;
+  // status 非 2xx 时返回的响应体
+  errorBody?: string;
+  steps?: MockStep[];
+}
+
+// /token 接口的模拟响应
+export interface MockTokenResponse {
+  status?: number;
+  body: unknown;
+}
+
+export interface MockAugmentServer {
+  // 以 "/" 结尾，可直接作为 tenant_url 使用
+  url: string;
+  // 收到的所有请求，便于断言转换结果
+  requests: AugmentRequest[];
+  headers: Headers[];
+  // 收到的 /token 请求体
+  tokenRequests: Record<string, string>[];
+  close(): Promise<void>;
+}
+
+// 将文本拆分为若干行响应，最后一行带 done 标记
+export function textSteps(...chunks: string[]): MockStep[] {
+  return chunks.map((text, i) => ({
+    line: { text, done: i === chunks.length - 1 },
+  }));
+}
+
+// 启动一个本地的 chat-stream 模拟服务
+export function startMockAugment(
+  script: MockScript | ((req: AugmentRequest) => MockScript),
+  tokenResponse: MockTokenResponse = { body: { access_token: "mock-token" } },
+): MockAugmentServer {
+  const requests: AugmentRequest[] = [];
+  const headers: Headers[] = [];
+  const tokenRequests: Record<string, string>[] = [];
+  const encoder = new TextEncoder();
+
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen: () => {} },
+    async (req) => {
+      const url = new URL(req.url);
+      if (req.method === "POST" && url.pathname === "/token") {
+        tokenRequests.push(await req.json());
+        const body = typeof tokenResponse.body === "string"
+          ? tokenResponse.body
+          : JSON.stringify(tokenResponse.body);
+        return new Response(body, { status: tokenResponse.status ?? 200 });
+      }
+      if (req.method !== "POST" || url.pathname !== "/chat-stream") {
+        return new Response("not found", { status: 404 });
+      }
+
+      const augmentReq = await req.json() as AugmentRequest;
+      requests.push(augmentReq);
+      headers.push(req.headers);
+
+      const current = typeof script === "function"
+        ? script(augmentReq)
+        : script;
+      const status = current.status ?? 200;
+      if (status < 200 || status >= 300) {
+        return new Response(current.errorBody ?? "", { status });
+      }
+
+      const steps = current.steps ?? [];
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          for (const step of steps) {
+            if ("delay" in step) {
+              await new Promise((resolve) => setTimeout(resolve, step.delay));
+            } else if ("truncate" in step) {
+              controller.error(new Error("mock upstream truncated"));
+              return;
+            } else if ("raw" in step) {
+              controller.enqueue(encoder.encode(step.raw));
+            } else {
+              controller.enqueue(
+                encoder.encode(JSON.stringify(step.line) + "\n"),
+              );
+            }
+          }
+          controller.close();
+        },
+      });
+
+      return new Response(body, {
+        headers: { "Content-Type": "application/x-ndjson" },
+      });
+    },
+  );
+
+  const addr = server.addr as Deno.NetAddr;
+  return {
+    url: `http://${addr.hostname}:${addr.port}/`,
+    requests,
+    headers,
+    tokenRequests,
+    close: () => server.shutdown(),
+  };
+}
@@ -0,0 +1,277 @@
+import { Router } from "https://deno.land/x/oak@v12.6.2/mod.ts";
+import { AdminGuard } from "./admin_auth.ts";
+import { ApiError } from "./errors.ts";
+import { OpenAIModel } from "./types.ts";
+
+const modelPrefix = ["model"];
+const modelIDPattern = /^[A-Za-z0-9._:-]{1,128}$/;
+
+// 上游的对话模式：AGENT 支持工具调用；CHAT 为普通对话，上游大概率会使用较弱的模型回复
+export type UpstreamMode = "AGENT" | "CHAT";
+const upstreamModes: UpstreamMode[] = ["AGENT", "CHAT"];
+
+export interface ModelConfig {
+  id: string;
+  // 请求中可以使用的其他名称，响应中统一返回 id
+  aliases: string[];
+  mode: UpstreamMode;
+  // 输入token上限，null 表示不限制
+  context_tokens: number | null;
+  // 未通过请求头选择提示词配置时使用，null 表示默认配置
+  default_profile: string | null;
+  owned_by: string;
+  // 秒级时间戳，与 OpenAI 的 created 一致
+  created: number;
+  // 内置模型为 0，表示未被修改
+  updated_at: number;
+}
+
+export type ModelInput = Omit<ModelConfig, "id" | "created" | "updated_at">;
+
+export class ModelConfigError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ModelConfigError";
+  }
+}
+
+// 内置模型，可以在管理接口中按 id 覆盖
+export const builtinModels: ModelConfig[] = [
+  {
+    id: "claude-3-7-sonnet-20250219",
+    aliases: ["claude-3-7-sonnet-latest"],
+    mode: "AGENT",
+    context_tokens: 200_000,
+    default_profile: null,
+    owned_by: "anthropic",
+    created: 1708387201,
+    updated_at: 0,
+  },
+  {
+    id: "claude-3.7",
+    aliases: [],
+    mode: "AGENT",
+    context_tokens: 200_000,
+    default_profile: null,
+    owned_by: "anthropic",
+    created: 1708387200,
+    updated_at: 0,
+  },
+];
+
+function modelKey(id: string) {
+  return [...modelPrefix, id];
+}
+
+export function toOpenAIModel(model: ModelConfig): OpenAIModel {
+  return {
+    id: model.id,
+    object: "model",
+    created: model.created,
+    owned_by: model.owned_by,
+  };
+}
+
+export interface ModelRegistry {
+  // 内置模型与已保存的模型，同 id 时以保存的为准
+  list(): Promise<ModelConfig[]>;
+  // 按 id 或别名查找
+  resolve(name: string): Promise<ModelConfig | null>;
+  save(id: string, input: ModelInput): Promise<ModelConfig>;
+  // 删除保存的模型；内置模型恢复为默认设置
+  delete(id: string): Promise<boolean>;
+}
+
+export function createModelRegistry(kv: Deno.Kv): ModelRegistry {
+  const list = async () => {
+    const models = new Map(builtinModels.map((model) => [model.id, model]));
+    for await (const entry of kv.list<ModelConfig>({ prefix: modelPrefix })) {
+      models.set(entry.value.id, entry.value);
+    }
+    return [...models.values()];
+  };
+
+  return {
+    list,
+
+    async resolve(name) {
+      const models = await list();
+      return models.find((model) => model.id === name) ??
+        models.find((model) => model.aliases.includes(name)) ?? null;
+    },
+
+    async save(id, input) {
+      if (!modelIDPattern.test(id)) {
+        throw new ModelConfigError(
+          "模型ID只能包含字母、数字和 . _ : -，最长128个字符",
+        );
+      }
+      const models = await list();
+      for (const name of [id, ...input.aliases]) {
+        const other = models.find((model) =>
+          model.id !== id &&
+          (model.id === name || model.aliases.includes(name))
+        );
+        if (other) {
+          throw new ModelConfigError(`名称 ${name} 已被模型 ${other.id} 使用`);
+        }
+      }
+      const existing = models.find((model) => model.id === id);
+      const model: ModelConfig = {
+        ...input,
+        id,
+        created: existing?.created ?? Math.floor(Date.now() / 1000),
+        updated_at: Date.now(),
+      };
+      await kv.set(modelKey(id), model);
+      return model;
+    },
+
+    async delete(id) {
+      const entry = await kv.get(modelKey(id));
+      if (!entry.value) return false;
+      await kv.delete(modelKey(id));
+      return true;
+    },
+  };
+}
+
+function modelNotFound(name: string): ApiError {
+  return new ApiError(
+    404,
+    "invalid_request_error",
+    `模型不存在: ${name}`,
+    "model_not_found",
+    "model",
+  );
+}
+
+// 解析请求中的模型名称，未配置的模型返回 404 model_not_found
+export async function resolveModel(
+  registry: ModelRegistry,
+  name: string,
+): Promise<ModelConfig> {
+  const model = await registry.resolve(name);
+  if (!model) throw modelNotFound(name);
+  return model;
+}
+
+// 转换后的输入超过模型的上下文预算时返回 400
+export function checkContextBudget(model: ModelConfig, promptTokens: number) {
+  if (model.context_tokens === null || promptTokens <= model.context_tokens) {
+    return;
+  }
+  throw new ApiError(
+    400,
+    "invalid_request_error",
+    `输入共 ${promptTokens} 个token，超过模型 ${model.id} 的上限 ${model.context_tokens}`,
+    "context_length_exceeded",
+    "messages",
+  );
+}
+
+// 校验管理接口提交的模型设置
+export function parseModelInput(body: unknown): ModelInput {
+  if (!body || typeof body !== "object") {
+    throw new ModelConfigError("请求体必须是JSON对象");
+  }
+  const input = body as Record<string, unknown>;
+  const aliases = input.aliases ?? [];
+  if (
+    !Array.isArray(aliases) ||
+    aliases.some((alias) =>
+      typeof alias !== "string" || !modelIDPattern.test(alias)
+    )
+  ) {
+    throw new ModelConfigError("aliases 必须是合法模型名称组成的数组");
+  }
+  const mode = input.mode ?? "AGENT";
+  if (!upstreamModes.includes(mode as UpstreamMode)) {
+    throw new ModelConfigError("mode 只能是 AGENT 或 CHAT");
+  }
+  const contextTokens = input.context_tokens ?? null;
+  if (
+    contextTokens !== null &&
+    (!Number.isInteger(contextTokens) || (contextTokens as number) < 1)
+  ) {
+    throw new ModelConfigError("context_tokens 必须是正整数或 null");
+  }
+  const defaultProfile = input.default_profile || null;
+  if (defaultProfile !== null && typeof defaultProfile !== "string") {
+    throw new ModelConfigError("default_profile 必须是字符串或 null");
+  }
+  const ownedBy = input.owned_by ?? "augment";
+  if (typeof ownedBy !== "string" || !ownedBy) {
+    throw new ModelConfigError("owned_by 必须是字符串");
+  }
+  return {
+    aliases: [...new Set(aliases as string[])],
+    mode: mode as UpstreamMode,
+    context_tokens: contextTokens as number | null,
+    default_profile: defaultProfile,
+    owned_by: ownedBy,
+  };
+}
+
+// 注册 /v1/models 与模型管理路由
+export function registerModelRoutes(
+  router: Router,
+  registry: ModelRegistry,
+  requireAdmin: AdminGuard,
+) {
+  router.get("/v1/models", async (ctx) => {
+    ctx.response.body = {
+      object: "list",
+      data: (await registry.list()).map(toOpenAIModel),
+    };
+  });
+
+  router.get("/v1/models/:id", async (ctx) => {
+    const model = await registry.resolve(ctx.params.id);
+    if (!model) {
+      const error = modelNotFound(ctx.params.id);
+      ctx.response.status = error.status;
+      ctx.response.body = error.toJSON();
+      return;
+    }
+    ctx.response.body = toOpenAIModel(model);
+  });
+
+  router.get("/admin/models", requireAdmin, async (ctx) => {
+    ctx.response.body = {
+      status: "success",
+      models: await registry.list(),
+    };
+  });
+
+  router.put("/admin/models/:id", requireAdmin, async (ctx) => {
+    try {
+      const input = parseModelInput(await ctx.request.body().value);
+      ctx.response.body = {
+        status: "success",
+        model: await registry.save(ctx.params.id, input),
+      };
+    } catch (error) {
+      if (!(error instanceof ModelConfigError)) throw error;
+      ctx.response.status = error.status;
+      ctx.response.body = {
+        status: "error",
+        message: error.message,
+      };
+    }
+  });
+
+  router.delete("/admin/models/:id", requireAdmin, async (ctx) => {
+    if (!(await registry.delete(ctx.params.id))) {
+      ctx.response.status = 404;
+      ctx.response.body = {
+        status: "error",
+        message: "Model not found",
+      };
+      return;
+    }
+    ctx.response.body = {
+      status: "success",
+    };
+  });
+}
@@ -0,0 +1,174 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { createApp } from "./main.ts";
+import { startMockAugment, textSteps } from "./mock_augment.ts";
+import { ApiError } from "./errors.ts";
+import {
+  builtinModels,
+  checkContextBudget,
+  createModelRegistry,
+  ModelConfigError,
+  parseModelInput,
+  resolveModel,
+} from "./models.ts";
+import { createPromptProfileStore } from "./prompt_profiles.ts";
+import { createTokenStore } from "./token_store.ts";
+import { request } from "./test_helpers.ts";
+
+Deno.test("registry resolves ids and aliases and lets admins override", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const registry = createModelRegistry(kv);
+    assertEquals(await registry.list(), builtinModels);
+    assertEquals(
+      (await resolveModel(registry, "claude-3-7-sonnet-latest")).id,
+      "claude-3-7-sonnet-20250219",
+    );
+
+    const notFound = await resolveModel(registry, "gpt-4").catch((e) => e);
+    assert(notFound instanceof ApiError);
+    assertEquals(notFound.status, 404);
+    assertEquals(notFound.code, "model_not_found");
+    assertEquals(notFound.param, "model");
+
+    const saved = await registry.save(
+      "claude-3.7",
+      parseModelInput({ aliases: ["fast"], mode: "CHAT" }),
+    );
+    // 覆盖内置模型时保留原来的 created
+    assertEquals(saved.created, 1708387200);
+    assertEquals((await resolveModel(registry, "fast")).mode, "CHAT");
+    assertEquals((await registry.list()).length, 2);
+
+    await assertRejects(
+      () => registry.save("other", parseModelInput({ aliases: ["fast"] })),
+      ModelConfigError,
+    );
+    await assertRejects(
+      () => registry.save("bad id", parseModelInput({})),
+      ModelConfigError,
+    );
+
+    // 删除后恢复为内置设置
+    assert(await registry.delete("claude-3.7"));
+    assertEquals(await registry.resolve("fast"), null);
+    assertEquals((await resolveModel(registry, "claude-3.7")).mode, "AGENT");
+    assertEquals(await registry.delete("claude-3.7"), false);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("model input is validated", () => {
+  assertEquals(parseModelInput({}), {
+    aliases: [],
+    mode: "AGENT",
+    context_tokens: null,
+    default_profile: null,
+    owned_by: "augment",
+  });
+  for (
+    const body of [
+      null,
+      { aliases: "a" },
+      { aliases: ["has space"] },
+      { mode: "agent" },
+      { context_tokens: 0 },
+      { default_profile: 1 },
+    ]
+  ) {
+    let error: unknown;
+    try {
+      parseModelInput(body);
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof ModelConfigError, JSON.stringify(body));
+  }
+});
+
+Deno.test("context budget rejects oversized prompts", () => {
+  const [model] = builtinModels;
+  checkContextBudget(model, model.context_tokens!);
+  let error: unknown;
+  try {
+    checkContextBudget(model, model.context_tokens! + 1);
+  } catch (e) {
+    error = e;
+  }
+  assert(error instanceof ApiError);
+  assertEquals(error.code, "context_length_exceeded");
+  checkContextBudget({ ...model, context_tokens: null }, 10_000_000);
+});
+
+Deno.test("configured models drive the upstream request", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const mock = startMockAugment({ steps: textSteps("ok") });
+  Deno.env.set("ADMIN_PASSWORD", "pw");
+  try {
+    await createTokenStore(kv).save("test-token", mock.url);
+    await createPromptProfileStore(kv).save({
+      name: "house-style",
+      prompt: "",
+      prefix: "",
+      guidelines: "Answer in haiku.",
+      selectable: false,
+    });
+    const app = createApp({ kv });
+
+    const saved = await request(app, "PUT", "/admin/models/house", {
+      headers: { "X-Admin-Key": "pw" },
+      body: {
+        aliases: ["house-latest"],
+        mode: "CHAT",
+        context_tokens: 50,
+        default_profile: "house-style",
+      },
+    });
+    assertEquals(saved.status, 200);
+    await saved.body?.cancel();
+
+    const list = await (await request(app, "GET", "/v1/models")).json();
+    assertEquals(list.data.map((model: { id: string }) => model.id), [
+      "claude-3-7-sonnet-20250219",
+      "claude-3.7",
+      "house",
+    ]);
+    const byAlias = await request(app, "GET", "/v1/models/house-latest");
+    assertEquals((await byAlias.json()).id, "house");
+    const missing = await request(app, "GET", "/v1/models/nope");
+    assertEquals(missing.status, 404);
+    assertEquals((await missing.json()).error.code, "model_not_found");
+
+    const chat = await request(app, "POST", "/v1/chat/completions", {
+      body: {
+        model: "house-latest",
+        messages: [{ role: "user", content: "Hi" }],
+      },
+    });
+    assertEquals(chat.status, 200);
+    assertEquals(chat.headers.get("x-prompt-profile"), "house-style");
+    assertEquals((await chat.json()).model, "house");
+    assertEquals(mock.requests[0].mode, "CHAT");
+    assertEquals(mock.requests[0].userGuideLines, "Answer in haiku.");
+
+    const tooLong = await request(app, "POST", "/v1/chat/completions", {
+      body: {
+        model: "house",
+        messages: [{ role: "user", content: "word ".repeat(100) }],
+      },
+    });
+    assertEquals(tooLong.status, 400);
+    assertEquals((await tooLong.json()).error.code, "context_length_exceeded");
+
+    const unknown = await request(app, "POST", "/v1/chat/completions", {
+      body: { model: "gpt-4", messages: [{ role: "user", content: "Hi" }] },
+    });
+    assertEquals(unknown.status, 404);
+    assertEquals((await unknown.json()).error.code, "model_not_found");
+    assertEquals(mock.requests.length, 1);
+  } finally {
+    Deno.env.delete("ADMIN_PASSWORD");
+    kv.close();
+    await mock.close();
+  }
+});
@@ -0,0 +1,69 @@
+import { AugmentResponse } from "./types.ts";
+
+// 上游的某一行不是合法的响应对象
+export class NdjsonParseError extends Error {
+  constructor(public line: string, public lineNumber: number, reason: string) {
+    super(`第${lineNumber}行解析失败: ${reason}`);
+    this.name = "NdjsonParseError";
+  }
+}
+
+export type AugmentStreamEvent =
+  | { type: "response"; response: AugmentResponse }
+  | { type: "error"; error: NdjsonParseError };
+
+function parseLine(line: string, lineNumber: number): AugmentStreamEvent {
+  let value: unknown;
+  try {
+    value = JSON.parse(line);
+  } catch (error) {
+    return {
+      type: "error",
+      error: new NdjsonParseError(
+        line,
+        lineNumber,
+        error instanceof Error ? error.message : String(error),
+      ),
+    };
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {
+      type: "error",
+      error: new NdjsonParseError(line, lineNumber, "不是JSON对象"),
+    };
+  }
+  const response = value as AugmentResponse;
+  // 部分行只带节点或结束标记，没有 text
+  if (typeof response.text !== "string") response.text = "";
+  if (response.nodes !== undefined && !Array.isArray(response.nodes)) {
+    response.nodes = [];
+  }
+  return { type: "response", response };
+}
+
+// 按行解析上游的 NDJSON 响应：分块可以在任意字节处切分（包括多字节字符中间），
+// 结尾没有换行的最后一行也会被解析；空行跳过，无法解析的行以 error 事件返回
+export async function* parseAugmentStream(
+  chunks: AsyncIterable<Uint8Array>,
+): AsyncGenerator<AugmentStreamEvent> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let lineNumber = 0;
+
+  function* drain(final: boolean): Generator<AugmentStreamEvent> {
+    const lines = buffer.split("\n");
+    buffer = final ? "" : lines.pop() ?? "";
+    for (const line of lines) {
+      lineNumber++;
+      const trimmedLine = line.trim();
+      if (trimmedLine) yield parseLine(trimmedLine, lineNumber);
+    }
+  }
+
+  for await (const chunk of chunks) {
+    buffer += decoder.decode(chunk, { stream: true });
+    yield* drain(false);
+  }
+  buffer += decoder.decode();
+  yield* drain(true);
+}
@@ -0,0 +1,78 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+  AugmentStreamEvent,
+  NdjsonParseError,
+  parseAugmentStream,
+} from "./ndjson.ts";
+
+async function* chunksOf(...chunks: Uint8Array[]) {
+  for (const chunk of chunks) yield chunk;
+}
+
+async function collect(
+  ...chunks: Uint8Array[]
+): Promise<AugmentStreamEvent[]> {
+  const events: AugmentStreamEvent[] = [];
+  for await (const event of parseAugmentStream(chunksOf(...chunks))) {
+    events.push(event);
+  }
+  return events;
+}
+
+function texts(events: AugmentStreamEvent[]): string[] {
+  return events.map((event) =>
+    event.type === "response" ? event.response.text : "<error>"
+  );
+}
+
+const body = new TextEncoder().encode(
+  '{"text":"你好","done":false}\n{"text":"🙂 world","done":false}\n\n{"text":"","done":true}\n',
+);
+
+Deno.test("every split point yields the same events", async () => {
+  const expected = ["你好", "🙂 world", ""];
+  for (let i = 0; i <= body.length; i++) {
+    const events = await collect(body.subarray(0, i), body.subarray(i));
+    assertEquals(texts(events), expected, `split at byte ${i}`);
+  }
+});
+
+Deno.test("single-byte chunks decode multi-byte characters", async () => {
+  const chunks = [...body].map((byte) => new Uint8Array([byte]));
+  assertEquals(texts(await collect(...chunks)), ["你好", "🙂 world", ""]);
+});
+
+Deno.test("a final line without a newline is flushed", async () => {
+  const encoder = new TextEncoder();
+  const events = await collect(
+    encoder.encode('{"text":"a"}\n{"text":"b",'),
+    encoder.encode('"done":true}'),
+  );
+  assertEquals(texts(events), ["a", "b"]);
+  const last = events[1];
+  assert(last.type === "response" && last.response.done);
+});
+
+Deno.test("malformed lines become typed errors", async () => {
+  const events = await collect(
+    new TextEncoder().encode(
+      'not json\n[1,2]\n{"done":true,"nodes":[]}\n{"text":"ok"',
+    ),
+  );
+  assertEquals(texts(events), ["<error>", "<error>", "", "<error>"]);
+  const first = events[0];
+  assert(first.type === "error" && first.error instanceof NdjsonParseError);
+  assertEquals(first.error.line, "not json");
+  assertEquals(first.error.lineNumber, 1);
+  const last = events[3];
+  assert(last.type === "error");
+  assertEquals(last.error.lineNumber, 4);
+});
+
+Deno.test("nodes that are not an array are treated as empty", async () => {
+  const [event] = await collect(
+    new TextEncoder().encode('{"text":"a","nodes":{"id":1}}\n'),
+  );
+  assert(event.type === "response");
+  assertEquals(event.response.nodes, []);
+});
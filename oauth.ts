@@ -0,0 +1,216 @@
+import { createHash, randomBytes } from "node:crypto";
+import { Buffer } from "node:buffer";
+
+const clientID = "v";
+// 授权状态有效期：10分钟
+const oauthStateTTL = 10 * 60 * 1000;
+// 默认只允许 Augment 官方租户域名
+const defaultTenantPattern = "^https://[a-z0-9-]+\\.api\\.augmentcode\\.com/$";
+
+// 管理页面据此展示不同的错误提示
+export type OAuthErrorCode =
+  | "missing_fields"
+  | "invalid_state"
+  | "tenant_url_not_allowed"
+  | "token_endpoint_unreachable"
+  | "token_exchange_failed"
+  | "invalid_token_response"
+  | "no_access_token";
+
+export class OAuthError extends Error {
+  constructor(
+    public code: OAuthErrorCode,
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+    this.name = "OAuthError";
+  }
+}
+
+export interface OAuthState {
+  codeVerifier: string;
+  codeChallenge: string;
+  state: string;
+  creationTime: number;
+}
+
+function base64URLEncode(buffer: Buffer): string {
+  return buffer
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=/g, "");
+}
+
+function stateKey(state: string) {
+  return ["oauth_state", state];
+}
+
+export function createOAuthState(): OAuthState {
+  const codeVerifier = base64URLEncode(randomBytes(32));
+  const codeChallenge = base64URLEncode(
+    createHash("sha256").update(codeVerifier).digest(),
+  );
+  const state = base64URLEncode(randomBytes(16));
+
+  return {
+    codeVerifier,
+    codeChallenge,
+    state,
+    creationTime: Date.now(),
+  };
+}
+
+export function generateAuthorizeURL(oauthState: OAuthState): string {
+  const params = new URLSearchParams({
+    response_type: "code",
+    code_challenge: oauthState.codeChallenge,
+    client_id: clientID,
+    state: oauthState.state,
+    prompt: "login",
+  });
+  const authorizeUrl = new URL(
+    `/authorize?${params.toString()}`,
+    "https://auth.augmentcode.com",
+  );
+  return authorizeUrl.toString();
+}
+
+export async function saveOAuthState(kv: Deno.Kv, oauthState: OAuthState) {
+  await kv.set(stateKey(oauthState.state), oauthState, {
+    expireIn: oauthStateTTL,
+  });
+}
+
+// 取出并删除授权状态，保证每个 state 只能使用一次
+export async function consumeOAuthState(
+  kv: Deno.Kv,
+  state: string,
+): Promise<OAuthState> {
+  const entry = await kv.get<OAuthState>(stateKey(state));
+  if (!entry.value) {
+    throw new OAuthError("invalid_state", "授权状态不存在、已过期或已被使用");
+  }
+
+  const result = await kv.atomic().check(entry).delete(entry.key).commit();
+  if (!result.ok) {
+    throw new OAuthError("invalid_state", "授权状态已被使用");
+  }
+  // KV 的过期删除并不及时，这里再校验一次
+  if (Date.now() - entry.value.creationTime > oauthStateTTL) {
+    throw new OAuthError("invalid_state", "授权状态已过期，请重新获取授权地址");
+  }
+  return entry.value;
+}
+
+// 校验租户地址：TENANT_URL_ALLOWLIST（逗号分隔的完整地址）优先，否则匹配 TENANT_URL_PATTERN
+export function validateTenantUrl(tenantUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(tenantUrl);
+  } catch {
+    throw new OAuthError("tenant_url_not_allowed", "tenant_url 不是合法的URL");
+  }
+  if (url.username || url.password || url.search || url.hash) {
+    throw new OAuthError(
+      "tenant_url_not_allowed",
+      "tenant_url 不能包含凭据或参数",
+    );
+  }
+  const normalized = url.href.endsWith("/") ? url.href : `${url.href}/`;
+
+  const allowlist = Deno.env.get("TENANT_URL_ALLOWLIST");
+  if (allowlist) {
+    const allowed = allowlist.split(",")
+      .map((item) => item.trim())
+      .filter(Boolean)
+      .map((item) => item.endsWith("/") ? item : `${item}/`);
+    if (!allowed.includes(normalized)) {
+      throw new OAuthError(
+        "tenant_url_not_allowed",
+        `tenant_url 不在允许列表中: ${normalized}`,
+      );
+    }
+    return normalized;
+  }
+
+  const pattern = new RegExp(
+    Deno.env.get("TENANT_URL_PATTERN") || defaultTenantPattern,
+  );
+  if (!pattern.test(normalized)) {
+    throw new OAuthError(
+      "tenant_url_not_allowed",
+      `tenant_url 不符合允许的格式: ${normalized}`,
+    );
+  }
+  return normalized;
+}
+
+export async function getAccessToken(
+  tenant_url: string,
+  codeVerifier: string,
+  code: string,
+): Promise<string> {
+  const data = {
+    grant_type: "authorization_code",
+    client_id: clientID,
+    code_verifier: codeVerifier,
+    redirect_uri: "",
+    code: code,
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(`${tenant_url}token`, {
+      method: "POST",
+      body: JSON.stringify(data),
+      // 不跟随重定向，避免被引导到允许列表之外的地址
+      redirect: "manual",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    throw new OAuthError(
+      "token_endpoint_unreachable",
+      `无法连接Token接口: ${error instanceof Error ? error.message : error}`,
+      502,
+    );
+  }
+
+  const text = await response.text();
+  let parsed: unknown = {};
+  try {
+    parsed = text ? JSON.parse(text) : {};
+  } catch {
+    // 非JSON响应体，下面按状态码处理
+  }
+  // null、数组或标量响应体没有可读取的字段
+  const isObject = typeof parsed === "object" && parsed !== null &&
+    !Array.isArray(parsed);
+  const json: Record<string, unknown> = isObject
+    ? parsed as Record<string, unknown>
+    : {};
+
+  if (!response.ok) {
+    const detail = json.error_description ?? json.error ?? text.slice(0, 200);
+    throw new OAuthError(
+      "token_exchange_failed",
+      `Token接口返回 ${response.status}${detail ? `: ${detail}` : ""}`,
+      502,
+    );
+  }
+
+  if (!isObject) {
+    throw new OAuthError(
+      "invalid_token_response",
+      `Token接口返回的不是JSON对象: ${text.slice(0, 200)}`,
+      502,
+    );
+  }
+  if (typeof json.access_token !== "string" || !json.access_token) {
+    throw new OAuthError("no_access_token", "Token接口未返回access_token", 502);
+  }
+  return json.access_token;
+}
@@ -0,0 +1,200 @@
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  consumeOAuthState,
+  createOAuthState,
+  getAccessToken,
+  OAuthError,
+  saveOAuthState,
+  validateTenantUrl,
+} from "./oauth.ts";
+import { createApp } from "./main.ts";
+import { startMockAugment } from "./mock_augment.ts";
+import { createTokenStore } from "./token_store.ts";
+
+function withEnv(vars: Record<string, string>, fn: () => Promise<void>) {
+  return async () => {
+    for (const [k, v] of Object.entries(vars)) Deno.env.set(k, v);
+    try {
+      await fn();
+    } finally {
+      for (const k of Object.keys(vars)) Deno.env.delete(k);
+    }
+  };
+}
+
+Deno.test("validateTenantUrl accepts Augment tenants by default", () => {
+  assertEquals(
+    validateTenantUrl("https://d20.api.augmentcode.com/"),
+    "https://d20.api.augmentcode.com/",
+  );
+  assertEquals(
+    validateTenantUrl("https://d20.api.augmentcode.com"),
+    "https://d20.api.augmentcode.com/",
+  );
+
+  for (
+    const bad of [
+      "http://d20.api.augmentcode.com/",
+      "https://evil.example/",
+      "https://d20.api.augmentcode.com.evil.example/",
+      "https://d20.api.augmentcode.com/x/",
+      "https://user:pw@d20.api.augmentcode.com/",
+      "https://d20.api.augmentcode.com/?a=1",
+      "not a url",
+    ]
+  ) {
+    const error = assertThrows(() => validateTenantUrl(bad), OAuthError);
+    assertEquals((error as OAuthError).code, "tenant_url_not_allowed", bad);
+  }
+});
+
+Deno.test(
+  "TENANT_URL_ALLOWLIST takes precedence over the pattern",
+  withEnv(
+    { TENANT_URL_ALLOWLIST: "https://a.example, https://b.example/" },
+    () => {
+      assertEquals(
+        validateTenantUrl("https://a.example/"),
+        "https://a.example/",
+      );
+      assertEquals(
+        validateTenantUrl("https://b.example"),
+        "https://b.example/",
+      );
+      assertThrows(
+        () => validateTenantUrl("https://d20.api.augmentcode.com/"),
+        OAuthError,
+      );
+      return Promise.resolve();
+    },
+  ),
+);
+
+Deno.test("OAuth state can only be consumed once", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const state = createOAuthState();
+    await saveOAuthState(kv, state);
+
+    assertEquals(await consumeOAuthState(kv, state.state), state);
+    const error = await assertRejects(
+      () => consumeOAuthState(kv, state.state),
+      OAuthError,
+    );
+    assertEquals((error as OAuthError).code, "invalid_state");
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("getAccessToken surfaces token endpoint errors", async () => {
+  const failing = startMockAugment({}, {
+    status: 400,
+    body: { error: "invalid_grant", error_description: "code expired" },
+  });
+  const empty = startMockAugment({}, { body: {} });
+  const nullBody = startMockAugment({}, { body: null });
+  try {
+    const error = await assertRejects(
+      () => getAccessToken(failing.url, "verifier", "code"),
+      OAuthError,
+      "code expired",
+    );
+    assertEquals((error as OAuthError).code, "token_exchange_failed");
+
+    const missing = await assertRejects(
+      () => getAccessToken(empty.url, "verifier", "code"),
+      OAuthError,
+    );
+    assertEquals((missing as OAuthError).code, "no_access_token");
+
+    const invalid = await assertRejects(
+      () => getAccessToken(nullBody.url, "verifier", "code"),
+      OAuthError,
+    );
+    assertEquals((invalid as OAuthError).code, "invalid_token_response");
+    assertEquals((invalid as OAuthError).status, 502);
+  } finally {
+    await failing.close();
+    await empty.close();
+    await nullBody.close();
+  }
+});
+
+async function postToken(app: ReturnType<typeof createApp>, body: unknown) {
+  const res = await app.handle(
+    new Request("http://localhost/getToken", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Admin-Key": "pw" },
+      body: JSON.stringify(body),
+    }),
+  );
+  assert(res);
+  return { status: res.status, json: await res.json() };
+}
+
+Deno.test(
+  "getToken exchanges the code once and rejects replays",
+  withEnv(
+    {
+      ADMIN_PASSWORD: "pw",
+      TENANT_URL_PATTERN: "^http://127\\.0\\.0\\.1:\\d+/$",
+    },
+    async () => {
+      const kv = await Deno.openKv(":memory:");
+      const mock = startMockAugment({}, { body: { access_token: "fresh" } });
+      try {
+        const app = createApp({ kv });
+        const state = createOAuthState();
+        await saveOAuthState(kv, state);
+        const body = { code: "c", state: state.state, tenant_url: mock.url };
+
+        const ok = await postToken(app, body);
+        assertEquals(ok.status, 200);
+        assertEquals(ok.json.token.masked_token, "****resh");
+        assertEquals(mock.tokenRequests[0].code_verifier, state.codeVerifier);
+        assertEquals((await createTokenStore(kv).list())[0].token, "fresh");
+
+        const replay = await postToken(app, body);
+        assertEquals(replay.status, 400);
+        assertEquals(replay.json.code, "invalid_state");
+        assertEquals(mock.tokenRequests.length, 1);
+      } finally {
+        kv.close();
+        await mock.close();
+      }
+    },
+  ),
+);
+
+Deno.test(
+  "getToken reports distinct error codes",
+  withEnv({ ADMIN_PASSWORD: "pw" }, async () => {
+    const kv = await Deno.openKv(":memory:");
+    try {
+      const app = createApp({ kv });
+
+      const missing = await postToken(app, { code: "c" });
+      assertEquals(missing.status, 400);
+      assertEquals(missing.json.code, "missing_fields");
+
+      const ssrf = await postToken(app, {
+        code: "c",
+        state: "s",
+        tenant_url: "http://169.254.169.254/",
+      });
+      assertEquals(ssrf.status, 400);
+      assertEquals(ssrf.json.code, "tenant_url_not_allowed");
+
+      const unknownState = await postToken(app, {
+        code: "c",
+        state: "unknown",
+        tenant_url: "https://d20.api.augmentcode.com/",
+      });
+      assertEquals(unknownState.status, 400);
+      assertEquals(unknownState.json.code, "invalid_state");
+    } finally {
+      kv.close();
+    }
+  }),
+);
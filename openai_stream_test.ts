@@ -0,0 +1,73 @@
+import { assert, assertEquals } from "@std/assert";
+import { MockStep } from "./mock_augment.ts";
+import { setup } from "./test_helpers.ts";
+
+// 流式输出的一致性测试：testdata/openai_stream 下每个文件是一组
+// 上游 NDJSON 与期望的 chat.completion.chunk 序列（不含 id 和 created）
+interface StreamFixture {
+  description: string;
+  request: Record<string, unknown>;
+  upstream: MockStep[];
+  chunks: Record<string, unknown>[];
+}
+
+const fixtureDir = new URL("./testdata/openai_stream/", import.meta.url);
+
+function loadFixtures(): [string, StreamFixture][] {
+  return [...Deno.readDirSync(fixtureDir)]
+    .filter((entry) => entry.isFile && entry.name.endsWith(".json"))
+    .map((entry) => entry.name)
+    .sort()
+    .map((name) => [
+      name,
+      JSON.parse(Deno.readTextFileSync(new URL(name, fixtureDir))),
+    ]);
+}
+
+async function streamEvents(fixture: StreamFixture): Promise<string[]> {
+  const env = await setup({ steps: fixture.upstream });
+  try {
+    const res = await env.app.handle(
+      new Request("http://localhost/v1/chat/completions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...fixture.request, stream: true }),
+      }),
+    );
+    assert(res);
+    assertEquals(res.status, 200);
+    assert(res.headers.get("content-type")?.startsWith("text/event-stream"));
+    const text = await res.text();
+    // 每个事件只有一行 data，以空行分隔
+    assert(text.endsWith("\n\n"));
+    return text.slice(0, -2).split("\n\n").map((block) => {
+      assert(block.startsWith("data: "), block);
+      return block.slice("data: ".length);
+    });
+  } finally {
+    await env.close();
+  }
+}
+
+for (const [name, fixture] of loadFixtures()) {
+  Deno.test(`stream conformance: ${name}`, async () => {
+    const events = await streamEvents(fixture);
+    assertEquals(events.filter((event) => event === "[DONE]").length, 1);
+    assertEquals(events.at(-1), "[DONE]");
+
+    const chunks = events.slice(0, -1).map((event) => JSON.parse(event));
+    const [first] = chunks;
+    assert(first.id.startsWith("chatcmpl-"));
+    assert(Number.isInteger(first.created));
+    for (const chunk of chunks) {
+      assertEquals(chunk.id, first.id);
+      assertEquals(chunk.created, first.created);
+      assertEquals(chunk.system_fingerprint, first.system_fingerprint);
+    }
+
+    assertEquals(
+      chunks.map(({ id: _id, created: _created, ...rest }) => rest),
+      fixture.chunks,
+    );
+  });
+}
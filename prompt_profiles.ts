@@ -0,0 +1,198 @@
+import { Router } from "https://deno.land/x/oak@v12.6.2/mod.ts";
+import { AdminGuard } from "./admin_auth.ts";
+
+// 请求通过该请求头选择提示词配置
+export const PROMPT_PROFILE_HEADER = "x-prompt-profile";
+// 默认配置不注入任何内容，且不能被覆盖
+export const DEFAULT_PROFILE_NAME = "default";
+
+const profilePrefix = ["prompt_profile"];
+const profileNamePattern = /^[A-Za-z0-9_-]{1,64}$/;
+
+export interface PromptProfile {
+  name: string;
+  // 拼接在当前用户消息之前
+  prompt: string;
+  // 作为上游请求的 prefix
+  prefix: string;
+  // 写入 userGuideLines，位于客户端 system 消息之前
+  guidelines: string;
+  // 是否允许请求通过请求头选择
+  selectable: boolean;
+  updated_at: number;
+}
+
+export class PromptProfileError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "PromptProfileError";
+  }
+}
+
+export const defaultProfile: PromptProfile = {
+  name: DEFAULT_PROFILE_NAME,
+  prompt: "",
+  prefix: "",
+  guidelines: "",
+  selectable: true,
+  updated_at: 0,
+};
+
+function profileKey(name: string) {
+  return [...profilePrefix, name];
+}
+
+// 配置注入到上游请求中的文本，用于用量统计
+export function injectedTexts(profile: PromptProfile): string[] {
+  return [profile.prompt, profile.prefix, profile.guidelines].filter(Boolean);
+}
+
+export interface PromptProfileStore {
+  list(): Promise<PromptProfile[]>;
+  get(name: string): Promise<PromptProfile | null>;
+  save(
+    profile: Omit<PromptProfile, "updated_at">,
+  ): Promise<PromptProfile>;
+  delete(name: string): Promise<boolean>;
+}
+
+function validateProfileName(name: string) {
+  if (!profileNamePattern.test(name)) {
+    throw new PromptProfileError(
+      "配置名称只能包含字母、数字、下划线和短横线，最长64个字符",
+    );
+  }
+  if (name === DEFAULT_PROFILE_NAME) {
+    throw new PromptProfileError("默认配置不能修改或删除");
+  }
+}
+
+export function createPromptProfileStore(kv: Deno.Kv): PromptProfileStore {
+  return {
+    async list() {
+      const profiles: PromptProfile[] = [defaultProfile];
+      for await (
+        const entry of kv.list<PromptProfile>({ prefix: profilePrefix })
+      ) {
+        profiles.push(entry.value);
+      }
+      return profiles;
+    },
+
+    async get(name) {
+      if (name === DEFAULT_PROFILE_NAME) return defaultProfile;
+      return (await kv.get<PromptProfile>(profileKey(name))).value;
+    },
+
+    async save(input) {
+      validateProfileName(input.name);
+      const profile: PromptProfile = { ...input, updated_at: Date.now() };
+      await kv.set(profileKey(profile.name), profile);
+      return profile;
+    },
+
+    async delete(name) {
+      validateProfileName(name);
+      const entry = await kv.get(profileKey(name));
+      if (!entry.value) return false;
+      await kv.delete(profileKey(name));
+      return true;
+    },
+  };
+}
+
+// 请求指定的配置必须存在且允许被选择；未指定时使用模型的默认配置
+// （不要求允许选择，已删除时退回默认配置）
+export async function resolvePromptProfile(
+  store: PromptProfileStore,
+  requested: string | null,
+  fallback: string | null = null,
+): Promise<PromptProfile> {
+  if (!requested) {
+    if (!fallback) return defaultProfile;
+    const profile = await store.get(fallback);
+    if (!profile) console.warn(`模型的默认提示词配置不存在: ${fallback}`);
+    return profile ?? defaultProfile;
+  }
+  const profile = await store.get(requested);
+  if (!profile || !profile.selectable) {
+    throw new PromptProfileError(`提示词配置不存在或不允许选择: ${requested}`);
+  }
+  return profile;
+}
+
+// 注册提示词配置的管理路由
+export function registerPromptProfileRoutes(
+  router: Router,
+  store: PromptProfileStore,
+  requireAdmin: AdminGuard,
+) {
+  router.get("/admin/profiles", requireAdmin, async (ctx) => {
+    ctx.response.body = {
+      status: "success",
+      profiles: await store.list(),
+    };
+  });
+
+  router.put("/admin/profiles/:name", requireAdmin, async (ctx) => {
+    const body = await ctx.request.body().value;
+    const fields = ["prompt", "prefix", "guidelines"] as const;
+    if (
+      !body || typeof body !== "object" ||
+      fields.some((field) =>
+        body[field] !== undefined && typeof body[field] !== "string"
+      )
+    ) {
+      ctx.response.status = 400;
+      ctx.response.body = {
+        status: "error",
+        message: "prompt、prefix、guidelines 必须是字符串",
+      };
+      return;
+    }
+
+    try {
+      const profile = await store.save({
+        name: ctx.params.name,
+        prompt: body.prompt ?? "",
+        prefix: body.prefix ?? "",
+        guidelines: body.guidelines ?? "",
+        selectable: body.selectable === true,
+      });
+      ctx.response.body = {
+        status: "success",
+        profile,
+      };
+    } catch (error) {
+      if (!(error instanceof PromptProfileError)) throw error;
+      ctx.response.status = error.status;
+      ctx.response.body = {
+        status: "error",
+        message: error.message,
+      };
+    }
+  });
+
+  router.delete("/admin/profiles/:name", requireAdmin, async (ctx) => {
+    try {
+      if (!(await store.delete(ctx.params.name))) {
+        ctx.response.status = 404;
+        ctx.response.body = {
+          status: "error",
+          message: "Profile not found",
+        };
+        return;
+      }
+      ctx.response.body = {
+        status: "success",
+      };
+    } catch (error) {
+      if (!(error instanceof PromptProfileError)) throw error;
+      ctx.response.status = error.status;
+      ctx.response.body = {
+        status: "error",
+        message: error.message,
+      };
+    }
+  });
+}
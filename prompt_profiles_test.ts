@@ -0,0 +1,165 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { createApp } from "./main.ts";
+import { startMockAugment, textSteps } from "./mock_augment.ts";
+import {
+  createPromptProfileStore,
+  defaultProfile,
+  PromptProfileError,
+  resolvePromptProfile,
+} from "./prompt_profiles.ts";
+import { createTokenStore } from "./token_store.ts";
+import { request } from "./test_helpers.ts";
+
+Deno.test("profiles resolve by name only when selectable", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const store = createPromptProfileStore(kv);
+    await store.save({
+      name: "writer",
+      prompt: "Write vividly.",
+      prefix: "",
+      guidelines: "",
+      selectable: true,
+    });
+    await store.save({
+      name: "internal",
+      prompt: "secret",
+      prefix: "",
+      guidelines: "",
+      selectable: false,
+    });
+
+    assertEquals(await resolvePromptProfile(store, null), defaultProfile);
+    // 模型的默认配置不要求允许选择，请求头优先
+    assertEquals(
+      (await resolvePromptProfile(store, null, "internal")).name,
+      "internal",
+    );
+    assertEquals(
+      (await resolvePromptProfile(store, "writer", "internal")).name,
+      "writer",
+    );
+    assertEquals(
+      (await resolvePromptProfile(store, "writer")).prompt,
+      "Write vividly.",
+    );
+    await assertRejects(
+      () => resolvePromptProfile(store, "internal"),
+      PromptProfileError,
+    );
+    await assertRejects(
+      () => resolvePromptProfile(store, "missing"),
+      PromptProfileError,
+    );
+    await assertRejects(
+      () => store.save({ ...defaultProfile, prompt: "x" }),
+      PromptProfileError,
+    );
+    assertEquals((await store.list()).map((p) => p.name), [
+      "default",
+      "internal",
+      "writer",
+    ]);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("default profile injects nothing upstream", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const mock = startMockAugment({ steps: textSteps("ok") });
+  try {
+    await createTokenStore(kv).save("test-token", mock.url);
+    const app = createApp({ kv });
+    const res = await request(app, "POST", "/v1/chat/completions", {
+      body: {
+        model: "claude-3.7",
+        messages: [{ role: "user", content: "Hi" }],
+      },
+    });
+    assertEquals(res.headers.get("x-prompt-profile"), "default");
+    const json = await res.json();
+    assertEquals(json.usage.prompt_profile, {
+      name: "default",
+      injected_tokens: 0,
+    });
+
+    const upstreamReq = mock.requests[0];
+    assertEquals(upstreamReq.message, "Hi");
+    assertEquals(upstreamReq.prefix, "");
+    assertEquals(upstreamReq.userGuideLines, "");
+    assertEquals(upstreamReq.toolDefinitions, []);
+  } finally {
+    kv.close();
+    await mock.close();
+  }
+});
+
+Deno.test("a profile managed by the admin can be selected by header", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const mock = startMockAugment({ steps: textSteps("ok") });
+  Deno.env.set("ADMIN_PASSWORD", "pw");
+  try {
+    await createTokenStore(kv).save("test-token", mock.url);
+    const app = createApp({ kv });
+    const admin = { "X-Admin-Key": "pw" };
+
+    const saved = await request(app, "PUT", "/admin/profiles/novel", {
+      headers: admin,
+      body: {
+        prompt: "Stay in character.",
+        guidelines: "Use British spelling.",
+        selectable: true,
+      },
+    });
+    assertEquals(saved.status, 200);
+    await saved.body?.cancel();
+
+    const chat = await request(app, "POST", "/v1/chat/completions", {
+      headers: { "X-Prompt-Profile": "novel" },
+      body: {
+        model: "claude-3.7",
+        messages: [
+          { role: "system", content: "Be brief." },
+          { role: "user", content: "Hi" },
+        ],
+      },
+    });
+    assertEquals(chat.status, 200);
+    const json = await chat.json();
+    assertEquals(json.usage.prompt_profile.name, "novel");
+    assert(json.usage.prompt_profile.injected_tokens > 0);
+
+    const upstreamReq = mock.requests[0];
+    assertEquals(upstreamReq.message, "Stay in character.\nHi");
+    assertEquals(
+      upstreamReq.userGuideLines,
+      "Use British spelling.\nBe brief.",
+    );
+
+    const unknown = await request(app, "POST", "/v1/chat/completions", {
+      headers: { "X-Prompt-Profile": "nope" },
+      body: {
+        model: "claude-3.7",
+        messages: [{ role: "user", content: "Hi" }],
+      },
+    });
+    assertEquals(unknown.status, 400);
+    await unknown.body?.cancel();
+
+    const deleted = await request(app, "DELETE", "/admin/profiles/novel", {
+      headers: admin,
+    });
+    assertEquals(deleted.status, 200);
+    await deleted.body?.cancel();
+    const reserved = await request(app, "DELETE", "/admin/profiles/default", {
+      headers: admin,
+    });
+    assertEquals(reserved.status, 400);
+    await reserved.body?.cancel();
+  } finally {
+    Deno.env.delete("ADMIN_PASSWORD");
+    kv.close();
+    await mock.close();
+  }
+});
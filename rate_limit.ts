@@ -0,0 +1,302 @@
+import { ApiError } from "./errors.ts";
+
+const limitPrefix = ["rate_limit"];
+const minuteMs = 60 * 1000;
+// 并发租约的兜底过期时间，进程异常退出时未释放的租约到期后不再计数
+const streamsTTL = 60 * 60 * 1000;
+const maxAttempts = 10;
+
+// 每个客户端的限额，null 表示不限制
+export interface RateLimits {
+  // 每分钟请求数
+  rpm: number | null;
+  // 每分钟token数
+  tpm: number | null;
+  // 同时进行的流式请求数
+  concurrentStreams: number | null;
+}
+
+function envLimit(name: string): number | null {
+  const value = Number(Deno.env.get(name));
+  return Number.isInteger(value) && value > 0 ? value : null;
+}
+
+// 未单独设置限额的密钥以及共享 OAUTH_TOKEN 使用的默认限额
+export function loadDefaultRateLimits(): RateLimits {
+  return {
+    rpm: envLimit("RATE_LIMIT_RPM"),
+    tpm: envLimit("RATE_LIMIT_TPM"),
+    concurrentStreams: envLimit("RATE_LIMIT_CONCURRENT_STREAMS"),
+  };
+}
+
+export function hasRateLimits(limits: RateLimits): boolean {
+  return limits.rpm !== null || limits.tpm !== null ||
+    limits.concurrentStreams !== null;
+}
+
+// 令牌桶：容量为每分钟限额，按时间线性补充
+interface Bucket {
+  level: number;
+  updated_at: number;
+}
+
+function refill(
+  bucket: Bucket | null,
+  capacity: number,
+  now: number,
+): number {
+  if (!bucket) return capacity;
+  const elapsed = Math.max(0, now - bucket.updated_at);
+  return Math.min(capacity, bucket.level + elapsed * capacity / minuteMs);
+}
+
+// 桶从 level 补充到 target 需要的毫秒数
+function refillMs(level: number, target: number, capacity: number): number {
+  return Math.max(0, Math.ceil((target - level) * minuteMs / capacity));
+}
+
+// 桶补满后与不存在等价，之后由 KV 自动删除
+function bucketTTL(level: number, capacity: number): number {
+  return refillMs(level, capacity, capacity) + minuteMs;
+}
+
+// 限额状态，用于生成 x-ratelimit-* 响应头
+export interface RateLimitState {
+  limits: RateLimits;
+  remainingRequests: number;
+  remainingTokens: number;
+  resetRequestsMs: number;
+  resetTokensMs: number;
+}
+
+// 与 OpenAI 一致的时长格式：20ms、1s、6m0s
+export function formatResetDuration(ms: number): string {
+  if (ms < 1000) return `${Math.ceil(ms)}ms`;
+  const seconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m${seconds % 60}s` : `${seconds}s`;
+}
+
+export function rateLimitHeaders(
+  state: RateLimitState,
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (state.limits.rpm !== null) {
+    headers["x-ratelimit-limit-requests"] = String(state.limits.rpm);
+    headers["x-ratelimit-remaining-requests"] = String(
+      Math.max(0, Math.floor(state.remainingRequests)),
+    );
+    headers["x-ratelimit-reset-requests"] = formatResetDuration(
+      state.resetRequestsMs,
+    );
+  }
+  if (state.limits.tpm !== null) {
+    headers["x-ratelimit-limit-tokens"] = String(state.limits.tpm);
+    headers["x-ratelimit-remaining-tokens"] = String(
+      Math.max(0, Math.floor(state.remainingTokens)),
+    );
+    headers["x-ratelimit-reset-tokens"] = formatResetDuration(
+      state.resetTokensMs,
+    );
+  }
+  return headers;
+}
+
+export class RateLimitError extends ApiError {
+  constructor(
+    message: string,
+    public retryAfterMs: number,
+    public state: RateLimitState,
+  ) {
+    super(429, "rate_limit_error", message, "rate_limit_exceeded");
+    this.name = "RateLimitError";
+  }
+}
+
+// 通过限流后持有的配额，请求结束时归还
+export interface RateLimitLease {
+  state: RateLimitState;
+  // 扣除补全产生的token，并释放占用的并发数
+  release(completionTokens: number): Promise<void>;
+}
+
+export interface RateLimitCost {
+  // 转发前已知的输入token数
+  promptTokens: number;
+  stream: boolean;
+}
+
+export interface RateLimiter {
+  // 超出限额时抛出 RateLimitError
+  acquire(
+    clientID: string,
+    limits: RateLimits,
+    cost: RateLimitCost,
+    now?: number,
+  ): Promise<RateLimitLease>;
+}
+
+// 限额状态保存在 KV 中，多个实例共享；每次更新都通过 atomic check 避免并发覆盖
+export function createRateLimiter(kv: Deno.Kv): RateLimiter {
+  const keys = (clientID: string) => ({
+    requests: [...limitPrefix, clientID, "requests"],
+    tokens: [...limitPrefix, clientID, "tokens"],
+    // 每个进行中的流式请求一条租约，值为到期时间
+    leases: [...limitPrefix, clientID, "stream_leases"],
+    // 租约增减时更新，用于 atomic check 串行化并发计数
+    leaseVersion: [...limitPrefix, clientID, "stream_version"],
+  });
+
+  const countLeases = async (prefix: Deno.KvKey, now: number) => {
+    let count = 0;
+    for await (const entry of kv.list<number>({ prefix })) {
+      // KV 的过期删除并不及时，这里按记录的到期时间判断
+      if (entry.value > now) count++;
+    }
+    return count;
+  };
+
+  // attempt 向 op 中写入检查与更新，返回 false 表示无需提交；冲突时重试
+  const update = async (
+    attempt: (op: Deno.AtomicOperation) => Promise<boolean>,
+  ) => {
+    for (let i = 0; i < maxAttempts; i++) {
+      const op = kv.atomic();
+      if (!(await attempt(op)) || (await op.commit()).ok) return;
+    }
+    throw new Error("限流状态更新冲突");
+  };
+
+  const release = (
+    clientID: string,
+    limits: RateLimits,
+    leaseID: string | null,
+    completionTokens: number,
+  ) =>
+    update(async (op) => {
+      const key = keys(clientID);
+      let changed = false;
+      if (limits.tpm !== null && completionTokens > 0) {
+        const entry = await kv.get<Bucket>(key.tokens);
+        const now = Date.now();
+        const level = refill(entry.value, limits.tpm, now) - completionTokens;
+        op.check(entry).set(key.tokens, { level, updated_at: now }, {
+          expireIn: bucketTTL(level, limits.tpm),
+        });
+        changed = true;
+      }
+      if (leaseID) {
+        op.delete([...key.leases, leaseID]);
+        changed = true;
+      }
+      return changed;
+    });
+
+  return {
+    async acquire(clientID, limits, cost, now = Date.now()) {
+      const key = keys(clientID);
+      let state: RateLimitState | undefined;
+      const leaseID = cost.stream && limits.concurrentStreams !== null
+        ? crypto.randomUUID()
+        : null;
+
+      await update(async (op) => {
+        const [requests, tokens, leaseVersion] = await kv.getMany<
+          [Bucket, Bucket, number]
+        >([key.requests, key.tokens, key.leaseVersion]);
+        const requestLevel = limits.rpm === null
+          ? 0
+          : refill(requests.value, limits.rpm, now);
+        const tokenLevel = limits.tpm === null
+          ? 0
+          : refill(tokens.value, limits.tpm, now);
+        // 输入超过整桶容量时，等桶满后允许通过，之后余额为负
+        const tokenCost = limits.tpm === null
+          ? 0
+          : Math.min(cost.promptTokens, limits.tpm);
+
+        const current: RateLimitState = {
+          limits,
+          remainingRequests: requestLevel,
+          remainingTokens: tokenLevel,
+          resetRequestsMs: limits.rpm === null
+            ? 0
+            : refillMs(requestLevel, limits.rpm, limits.rpm),
+          resetTokensMs: limits.tpm === null
+            ? 0
+            : refillMs(tokenLevel, limits.tpm, limits.tpm),
+        };
+
+        if (limits.rpm !== null && requestLevel < 1) {
+          throw new RateLimitError(
+            `请求过于频繁，每分钟最多 ${limits.rpm} 次请求`,
+            refillMs(requestLevel, 1, limits.rpm),
+            current,
+          );
+        }
+        if (limits.tpm !== null && tokenLevel < tokenCost) {
+          throw new RateLimitError(
+            `token用量超出限额，每分钟最多 ${limits.tpm} 个token`,
+            refillMs(tokenLevel, tokenCost, limits.tpm),
+            current,
+          );
+        }
+        if (
+          leaseID && limits.concurrentStreams !== null &&
+          await countLeases(key.leases, now) >= limits.concurrentStreams
+        ) {
+          throw new RateLimitError(
+            `同时进行的流式请求最多 ${limits.concurrentStreams} 个`,
+            1000,
+            current,
+          );
+        }
+
+        if (limits.rpm !== null) {
+          current.remainingRequests = requestLevel - 1;
+          current.resetRequestsMs = refillMs(
+            current.remainingRequests,
+            limits.rpm,
+            limits.rpm,
+          );
+          op.check(requests).set(key.requests, {
+            level: current.remainingRequests,
+            updated_at: now,
+          }, { expireIn: bucketTTL(current.remainingRequests, limits.rpm) });
+        }
+        if (limits.tpm !== null) {
+          current.remainingTokens = tokenLevel - cost.promptTokens;
+          current.resetTokensMs = refillMs(
+            current.remainingTokens,
+            limits.tpm,
+            limits.tpm,
+          );
+          op.check(tokens).set(key.tokens, {
+            level: current.remainingTokens,
+            updated_at: now,
+          }, { expireIn: bucketTTL(current.remainingTokens, limits.tpm) });
+        }
+        if (leaseID) {
+          op.check(leaseVersion)
+            .set(key.leaseVersion, now, { expireIn: streamsTTL })
+            .set([...key.leases, leaseID], now + streamsTTL, {
+              expireIn: streamsTTL,
+            });
+        }
+        state = current;
+        return true;
+      });
+
+      let released = false;
+      return {
+        state: state!,
+        async release(completionTokens) {
+          if (released) return;
+          released = true;
+          await release(clientID, limits, leaseID, completionTokens);
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,154 @@
+import { assert, assertEquals } from "@std/assert";
+import { createApp } from "./main.ts";
+import { startMockAugment, textSteps } from "./mock_augment.ts";
+import {
+  createRateLimiter,
+  formatResetDuration,
+  RateLimitError,
+} from "./rate_limit.ts";
+import { createTokenStore } from "./token_store.ts";
+
+// 返回被限流时的 Retry-After 毫秒数；未被限流时测试失败
+async function rejected(promise: Promise<unknown>): Promise<number> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof RateLimitError) return error.retryAfterMs;
+    throw error;
+  }
+  throw new Error("expected a rate limit error");
+}
+
+const noLimits = { rpm: null, tpm: null, concurrentStreams: null };
+
+Deno.test("request bucket refills over the minute", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const limiter = createRateLimiter(kv);
+    const limits = { ...noLimits, rpm: 2 };
+    const cost = { promptTokens: 0, stream: false };
+    const t0 = 1_000_000;
+    const first = await limiter.acquire("a", limits, cost, t0);
+    assertEquals(first.state.remainingRequests, 1);
+    await limiter.acquire("a", limits, cost, t0);
+    assertEquals(
+      await rejected(limiter.acquire("a", limits, cost, t0)),
+      30_000,
+    );
+    // 其他客户端不受影响
+    await limiter.acquire("b", limits, cost, t0);
+    await limiter.acquire("a", limits, cost, t0 + 30_000);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("token bucket charges prompt and completion tokens", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const limiter = createRateLimiter(kv);
+    const limits = { ...noLimits, tpm: 100 };
+    const now = Date.now();
+    const lease = await limiter.acquire(
+      "a",
+      limits,
+      { promptTokens: 40, stream: false },
+      now,
+    );
+    assertEquals(lease.state.remainingTokens, 60);
+    await lease.release(50);
+    const retryMs = await rejected(
+      limiter.acquire("a", limits, { promptTokens: 20, stream: false }, now),
+    );
+    assert(retryMs > 5_000 && retryMs <= 6_000);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("concurrent streams are released when a stream ends", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const limiter = createRateLimiter(kv);
+    const limits = { ...noLimits, concurrentStreams: 1 };
+    const stream = { promptTokens: 0, stream: true };
+    const lease = await limiter.acquire("a", limits, stream);
+    await rejected(limiter.acquire("a", limits, stream));
+    // 非流式请求不占用并发数
+    await limiter.acquire("a", limits, { promptTokens: 0, stream: false });
+    await lease.release(0);
+    await lease.release(0);
+    await limiter.acquire("a", limits, stream);
+    await rejected(limiter.acquire("a", limits, stream));
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("stream leases left by a crashed instance expire", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const limiter = createRateLimiter(kv);
+    const limits = { ...noLimits, concurrentStreams: 1 };
+    const stream = { promptTokens: 0, stream: true };
+    const t0 = Date.now();
+    // 未释放的租约，模拟进程在流式请求中途退出
+    await limiter.acquire("a", limits, stream, t0);
+    await rejected(limiter.acquire("a", limits, stream, t0 + 30 * 60_000));
+    // 持续有请求时，过期租约也不会被续期
+    await limiter.acquire("a", limits, stream, t0 + 61 * 60_000);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("reset durations use OpenAI's format", () => {
+  assertEquals(formatResetDuration(20), "20ms");
+  assertEquals(formatResetDuration(1000), "1s");
+  assertEquals(formatResetDuration(360_000), "6m0s");
+  assertEquals(formatResetDuration(61_500), "1m2s");
+});
+
+Deno.test("limited completions get 429 with rate limit headers", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const mock = startMockAugment({ steps: textSteps("ok") });
+  try {
+    await createTokenStore(kv).save("test-token", mock.url);
+    const app = createApp({
+      kv,
+      rateLimits: { rpm: 1, tpm: 1000, concurrentStreams: null },
+    });
+    const send = async (): Promise<Response> => {
+      const res = await app.handle(
+        new Request("http://localhost/v1/chat/completions", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            model: "claude-3.7",
+            messages: [{ role: "user", content: "Hi" }],
+          }),
+        }),
+      );
+      assert(res);
+      return res;
+    };
+
+    const allowed = await send();
+    assertEquals(allowed.status, 200);
+    assertEquals(allowed.headers.get("x-ratelimit-limit-requests"), "1");
+    assertEquals(allowed.headers.get("x-ratelimit-remaining-requests"), "0");
+    assertEquals(allowed.headers.get("x-ratelimit-limit-tokens"), "1000");
+    await allowed.body?.cancel();
+
+    const limited = await send();
+    assertEquals(limited.status, 429);
+    assertEquals(limited.headers.get("retry-after"), "60");
+    assertEquals(limited.headers.get("x-ratelimit-reset-requests"), "1m0s");
+    const json = await limited.json();
+    assertEquals(json.error.type, "rate_limit_error");
+    assertEquals(json.error.code, "rate_limit_exceeded");
+  } finally {
+    kv.close();
+    await mock.close();
+  }
+});
@@ -0,0 +1,65 @@
+import { Node, ResponseNodeType } from "./types.ts";
+
+// 思考过程与节点元数据是否下发给客户端：expose 时以 reasoning_content 和 augment_nodes
+// 扩展字段返回，strip 时丢弃，适用于严格校验响应格式的客户端
+export type ExtensionPolicy = "expose" | "strip";
+
+export function loadExtensionPolicy(): ExtensionPolicy {
+  return Deno.env.get("RESPONSE_EXTENSIONS") === "strip" ? "strip" : "expose";
+}
+
+// 已映射到标准字段的节点：回复文本、工具调用与思考过程
+const mappedNodeTypes: number[] = [
+  ResponseNodeType.RAW_RESPONSE,
+  ResponseNodeType.TOOL_USE,
+  ResponseNodeType.THINKING,
+];
+
+export interface NodeExtras {
+  reasoning: string;
+  nodes: Node[];
+}
+
+export interface NodeCollector {
+  // 返回本行新增的思考文本与其他节点；strip 时始终为空
+  push(nodes: Node[] | undefined): NodeExtras;
+  // 目前为止收到的全部内容，用于非流式响应
+  readonly reasoning: string;
+  readonly nodes: Node[];
+}
+
+// 思考节点每行带一段增量文本；其他节点按 id 去重，上游可能在结束时重复发送
+export function createNodeCollector(policy: ExtensionPolicy): NodeCollector {
+  let reasoning = "";
+  const collected: Node[] = [];
+
+  return {
+    push(nodes) {
+      const extras: NodeExtras = { reasoning: "", nodes: [] };
+      if (policy === "strip") return extras;
+      for (const node of nodes ?? []) {
+        if (node.type === ResponseNodeType.THINKING) {
+          extras.reasoning += node.thinking?.summary || node.content || "";
+        } else if (
+          !mappedNodeTypes.includes(node.type) &&
+          !collected.some((seen) =>
+            seen.id === node.id && seen.type === node.type
+          )
+        ) {
+          extras.nodes.push(node);
+          collected.push(node);
+        }
+      }
+      reasoning += extras.reasoning;
+      return extras;
+    },
+
+    get reasoning() {
+      return reasoning;
+    },
+
+    get nodes() {
+      return collected;
+    },
+  };
+}
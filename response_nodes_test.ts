@@ -0,0 +1,50 @@
+import { assertEquals } from "@std/assert";
+import { createNodeCollector } from "./response_nodes.ts";
+import { Node, ResponseNodeType } from "./types.ts";
+
+const thinking = (id: number, summary: string): Node => ({
+  id,
+  type: ResponseNodeType.THINKING,
+  content: "",
+  thinking: { summary },
+});
+
+const memory: Node = {
+  id: 3,
+  type: ResponseNodeType.AGENT_MEMORY,
+  content: "",
+  agentMemory: { content: "User prefers tabs." },
+};
+
+const toolUse: Node = {
+  id: 4,
+  type: ResponseNodeType.TOOL_USE,
+  content: "",
+  toolUse: { toolUseID: "t1", toolName: "f", inputJSON: "{}" },
+};
+
+Deno.test("collector splits thinking text from other node metadata", () => {
+  const collector = createNodeCollector("expose");
+  assertEquals(collector.push([thinking(1, "Let me "), memory]), {
+    reasoning: "Let me ",
+    nodes: [memory],
+  });
+  // 工具调用已映射到 tool_calls，重复发送的节点只返回一次
+  assertEquals(collector.push([thinking(2, "think."), memory, toolUse]), {
+    reasoning: "think.",
+    nodes: [],
+  });
+  assertEquals(collector.push(undefined), { reasoning: "", nodes: [] });
+  assertEquals(collector.reasoning, "Let me think.");
+  assertEquals(collector.nodes, [memory]);
+});
+
+Deno.test("strip policy drops thinking and node metadata", () => {
+  const collector = createNodeCollector("strip");
+  assertEquals(collector.push([thinking(1, "hidden"), memory]), {
+    reasoning: "",
+    nodes: [],
+  });
+  assertEquals(collector.reasoning, "");
+  assertEquals(collector.nodes, []);
+});
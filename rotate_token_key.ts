@@ -0,0 +1,43 @@
+// 密钥轮换：用 TOKEN_ENCRYPTION_KEY_NEW 重新加密所有Token记录
+//   deno task rotate-key [KV路径或URL]
+// 当前记录为明文时可不设置 TOKEN_ENCRYPTION_KEY；未设置新密钥时会生成一个并退出
+import "jsr:@std/dotenv/load";
+import {
+  generateTokenKey,
+  importTokenKey,
+  loadTokenCipher,
+  TOKEN_KEY_ENV,
+} from "./token_crypto.ts";
+import { migrateLegacyTokens, reencryptTokens } from "./token_store.ts";
+
+const NEW_KEY_ENV = `${TOKEN_KEY_ENV}_NEW`;
+
+if (import.meta.main) {
+  const newKey = Deno.env.get(NEW_KEY_ENV);
+  if (!newKey) {
+    console.log(`未设置 ${NEW_KEY_ENV}，已生成一个新密钥：`);
+    console.log(generateTokenKey());
+    console.log(`将其设置为 ${NEW_KEY_ENV} 后重新执行本命令。`);
+    Deno.exit(1);
+  }
+
+  try {
+    const current = await loadTokenCipher();
+    const next = await importTokenKey(newKey);
+
+    const kv = await Deno.openKv(Deno.args[0]);
+    await migrateLegacyTokens(kv);
+    const rewritten = await reencryptTokens(kv, current, next);
+    kv.close();
+
+    console.log(
+      `已重新加密 ${rewritten} 个Token记录（新密钥指纹 ${next.kid}）`,
+    );
+    console.log(`请将 ${TOKEN_KEY_ENV} 更新为 ${NEW_KEY_ENV} 的值并重启服务。`);
+  } catch (error) {
+    console.error(
+      `密钥轮换失败: ${error instanceof Error ? error.message : error}`,
+    );
+    Deno.exit(1);
+  }
+}
@@ -0,0 +1,45 @@
+import { assert } from "@std/assert";
+import { AppOptions, createApp } from "./main.ts";
+import { MockScript, startMockAugment } from "./mock_augment.ts";
+import { createTokenStore } from "./token_store.ts";
+import { AugmentRequest } from "./types.ts";
+
+export type TestApp = ReturnType<typeof createApp>;
+
+// 启动模拟上游并创建应用，内存 KV 中预存一个指向模拟上游的 Token
+export async function setup(
+  script: MockScript | ((req: AugmentRequest) => MockScript),
+  options: Omit<AppOptions, "kv"> = {},
+) {
+  const kv = await Deno.openKv(":memory:");
+  const mock = startMockAugment(script);
+  await createTokenStore(kv).save("test-token", mock.url);
+  const app = createApp({ kv, ...options });
+  return {
+    app,
+    kv,
+    mock,
+    async close() {
+      kv.close();
+      await mock.close();
+    },
+  };
+}
+
+// 发送 JSON 请求，body 为 undefined 时不带请求体
+export async function request(
+  app: TestApp,
+  method: string,
+  path: string,
+  init: { headers?: Record<string, string>; body?: unknown } = {},
+): Promise<Response> {
+  const res = await app.handle(
+    new Request(`http://localhost${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", ...init.headers },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    }),
+  );
+  assert(res);
+  return res;
+}
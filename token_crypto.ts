@@ -0,0 +1,83 @@
+import { Buffer } from "node:buffer";
+import { EncryptedValue } from "./types.ts";
+
+export const TOKEN_KEY_ENV = "TOKEN_ENCRYPTION_KEY";
+
+// 密钥缺失或不匹配时抛出，启动时据此直接退出
+export class TokenKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenKeyError";
+  }
+}
+
+export interface TokenCipher {
+  // 密钥指纹，写入每条密文，用于识别密钥不匹配
+  kid: string;
+  encrypt(plaintext: string): Promise<EncryptedValue>;
+  decrypt(value: EncryptedValue): Promise<string>;
+}
+
+// 生成一个新的 base64 编码 AES-256 密钥
+export function generateTokenKey(): string {
+  return Buffer.from(crypto.getRandomValues(new Uint8Array(32)))
+    .toString("base64");
+}
+
+export async function importTokenKey(encodedKey: string): Promise<TokenCipher> {
+  const raw = Buffer.from(encodedKey.trim(), "base64");
+  if (raw.length !== 32) {
+    throw new TokenKeyError(
+      `${TOKEN_KEY_ENV} 必须是 base64 编码的 32 字节密钥，当前为 ${raw.length} 字节`,
+    );
+  }
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    raw,
+    { name: "AES-GCM" },
+    false,
+    ["encrypt", "decrypt"],
+  );
+  const digest = await crypto.subtle.digest("SHA-256", raw);
+  const kid = Buffer.from(digest).toString("hex").slice(0, 16);
+
+  return {
+    kid,
+    async encrypt(plaintext) {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const data = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv },
+        key,
+        new TextEncoder().encode(plaintext),
+      );
+      return {
+        kid,
+        iv: Buffer.from(iv).toString("base64"),
+        data: Buffer.from(data).toString("base64"),
+      };
+    },
+    async decrypt(value) {
+      if (value.kid !== kid) {
+        throw new TokenKeyError(
+          `Token记录使用密钥 ${value.kid} 加密，与当前 ${TOKEN_KEY_ENV}(${kid}) 不匹配`,
+        );
+      }
+      const data = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: Buffer.from(value.iv, "base64") },
+        key,
+        Buffer.from(value.data, "base64"),
+      );
+      return new TextDecoder().decode(data);
+    },
+  };
+}
+
+// 从环境变量加载密钥，未配置时返回 null
+export function loadTokenCipher(
+  envName = TOKEN_KEY_ENV,
+): Promise<TokenCipher | null> {
+  const encodedKey = Deno.env.get(envName);
+  if (!encodedKey) return Promise.resolve(null);
+  return importTokenKey(encodedKey);
+}
@@ -0,0 +1,28 @@
+import { assertEquals, assertNotEquals, assertRejects } from "@std/assert";
+import {
+  generateTokenKey,
+  importTokenKey,
+  TokenKeyError,
+} from "./token_crypto.ts";
+
+Deno.test("encrypt and decrypt round-trip with a fresh IV", async () => {
+  const cipher = await importTokenKey(generateTokenKey());
+  const first = await cipher.encrypt("secret");
+  const second = await cipher.encrypt("secret");
+  assertNotEquals(first.iv, second.iv);
+  assertEquals(first.kid, cipher.kid);
+  assertEquals(await cipher.decrypt(first), "secret");
+});
+
+Deno.test("keys must decode to 32 bytes", async () => {
+  await assertRejects(() => importTokenKey("c2hvcnQ="), TokenKeyError);
+});
+
+Deno.test("decrypting with another key fails clearly", async () => {
+  const a = await importTokenKey(generateTokenKey());
+  const b = await importTokenKey(generateTokenKey());
+  await assertRejects(
+    async () => b.decrypt(await a.encrypt("secret")),
+    TokenKeyError,
+  );
+});
@@ -0,0 +1,195 @@
+import { StoredToken, TokenData, TokenSummary } from "./types.ts";
+import { TOKEN_KEY_ENV, TokenCipher, TokenKeyError } from "./token_crypto.ts";
+
+const tokenPrefix = ["auth_token"];
+
+function tokenKey(id: string) {
+  return [...tokenPrefix, id];
+}
+
+// 仅保留末尾4位用于展示
+export function maskToken(token: string): string {
+  if (token.length <= 4) return "****";
+  return `****${token.slice(-4)}`;
+}
+
+export function toTokenSummary(data: TokenData): TokenSummary {
+  return {
+    id: data.id,
+    masked_token: maskToken(data.token),
+    tenant_url: data.tenant_url,
+    created_at: data.created_at,
+  };
+}
+
+export interface TokenStore {
+  list(): Promise<TokenData[]>;
+  get(id: string): Promise<TokenData | null>;
+  // 同一个Token重复授权时沿用已有ID
+  save(token: string, tenant_url: string): Promise<TokenData>;
+  delete(id: string): Promise<boolean>;
+}
+
+async function toStored(
+  data: TokenData,
+  cipher: TokenCipher | null,
+): Promise<StoredToken> {
+  const stored: StoredToken = {
+    id: data.id,
+    tenant_url: data.tenant_url,
+    created_at: data.created_at,
+  };
+  if (cipher) {
+    stored.token_enc = await cipher.encrypt(data.token);
+  } else {
+    stored.token = data.token;
+  }
+  return stored;
+}
+
+async function fromStored(
+  stored: StoredToken,
+  cipher: TokenCipher | null,
+): Promise<TokenData> {
+  let token = stored.token ?? "";
+  if (stored.token_enc) {
+    if (!cipher) {
+      throw new TokenKeyError(`Token记录已加密，但未设置 ${TOKEN_KEY_ENV}`);
+    }
+    token = await cipher.decrypt(stored.token_enc);
+  }
+  return {
+    id: stored.id,
+    token,
+    tenant_url: stored.tenant_url,
+    created_at: stored.created_at,
+  };
+}
+
+// cipher 为 null 时以明文保存（兼容未配置密钥的部署）
+export function createTokenStore(
+  kv: Deno.Kv,
+  cipher: TokenCipher | null = null,
+): TokenStore {
+  const list = async () => {
+    const tokens: TokenData[] = [];
+    for await (const entry of kv.list<StoredToken>({ prefix: tokenPrefix })) {
+      tokens.push(await fromStored(entry.value, cipher));
+    }
+    return tokens;
+  };
+
+  return {
+    list,
+    async get(id) {
+      const entry = await kv.get<StoredToken>(tokenKey(id));
+      return entry.value ? await fromStored(entry.value, cipher) : null;
+    },
+    async save(token, tenant_url) {
+      const existing = (await list()).find((data) => data.token === token);
+      const data: TokenData = {
+        id: existing?.id ?? crypto.randomUUID(),
+        token,
+        tenant_url,
+        created_at: existing?.created_at ?? Date.now(),
+      };
+      await kv.set(tokenKey(data.id), await toStored(data, cipher));
+      return data;
+    },
+    async delete(id) {
+      const entry = await kv.get(tokenKey(id));
+      if (entry.value === null) return false;
+      await kv.delete(tokenKey(id));
+      return true;
+    },
+  };
+}
+
+// 迁移旧格式：["auth_token", <token>] -> ["auth_token", <id>]
+export async function migrateLegacyTokens(kv: Deno.Kv): Promise<number> {
+  let migrated = 0;
+  for await (const entry of kv.list<StoredToken>({ prefix: tokenPrefix })) {
+    if (entry.value.id) continue;
+
+    const data: StoredToken = {
+      id: crypto.randomUUID(),
+      token: entry.value.token,
+      tenant_url: entry.value.tenant_url,
+      created_at: entry.value.created_at,
+    };
+    const result = await kv.atomic()
+      .check(entry)
+      .delete(entry.key)
+      .set(tokenKey(data.id), data)
+      .commit();
+    if (result.ok) migrated++;
+  }
+  if (migrated > 0) {
+    console.log(`已迁移 ${migrated} 个旧格式Token`);
+  }
+  return migrated;
+}
+
+// 用新密钥重新保存所有记录；from 为 null 表示原记录是明文，to 为 null 表示解密回明文
+export async function reencryptTokens(
+  kv: Deno.Kv,
+  from: TokenCipher | null,
+  to: TokenCipher | null,
+): Promise<number> {
+  let rewritten = 0;
+  for await (const entry of kv.list<StoredToken>({ prefix: tokenPrefix })) {
+    const alreadyCurrent = to
+      ? entry.value.token_enc?.kid === to.kid
+      : !entry.value.token_enc;
+    if (alreadyCurrent) continue;
+
+    const data = await fromStored(entry.value, from);
+    const result = await kv.atomic()
+      .check(entry)
+      .set(entry.key, await toStored(data, to))
+      .commit();
+    if (!result.ok) {
+      throw new Error(`Token ${data.id} 在重新加密期间被修改，请重新执行`);
+    }
+    rewritten++;
+  }
+  return rewritten;
+}
+
+// 启动时检查：迁移旧键；已有密文但缺少或不匹配密钥时直接报错；配置密钥后加密残留的明文记录
+export async function prepareTokenStore(
+  kv: Deno.Kv,
+  cipher: TokenCipher | null,
+): Promise<void> {
+  await migrateLegacyTokens(kv);
+
+  let plaintext = 0;
+  for await (const entry of kv.list<StoredToken>({ prefix: tokenPrefix })) {
+    const enc = entry.value.token_enc;
+    if (!enc) {
+      plaintext++;
+      continue;
+    }
+    if (!cipher) {
+      throw new TokenKeyError(
+        `KV 中存在已加密的Token记录，但未设置 ${TOKEN_KEY_ENV} 环境变量，服务无法启动`,
+      );
+    }
+    if (enc.kid !== cipher.kid) {
+      throw new TokenKeyError(
+        `Token ${entry.value.id} 使用密钥 ${enc.kid} 加密，与当前 ${TOKEN_KEY_ENV}(${cipher.kid}) 不匹配，请先执行密钥轮换`,
+      );
+    }
+  }
+
+  if (plaintext > 0) {
+    if (cipher) {
+      const encrypted = await reencryptTokens(kv, null, cipher);
+      console.log(`已加密 ${encrypted} 个明文Token记录`);
+    } else {
+      console.warn(
+        `警告: ${plaintext} 个Token以明文保存，请设置 ${TOKEN_KEY_ENV} 启用加密`,
+      );
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import {
+  assert,
+  assertEquals,
+  assertNotEquals,
+  assertRejects,
+} from "@std/assert";
+import {
+  createTokenStore,
+  maskToken,
+  migrateLegacyTokens,
+  prepareTokenStore,
+  reencryptTokens,
+  toTokenSummary,
+} from "./token_store.ts";
+import {
+  generateTokenKey,
+  importTokenKey,
+  TokenKeyError,
+} from "./token_crypto.ts";
+import { StoredToken } from "./types.ts";
+
+Deno.test("maskToken keeps only the last four characters", () => {
+  assertEquals(maskToken("abcdef123456"), "****3456");
+  assertEquals(maskToken("abc"), "****");
+});
+
+Deno.test("tokens are stored under generated IDs", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const store = createTokenStore(kv);
+  try {
+    const saved = await store.save("secret-token", "https://t.example/");
+    assertNotEquals(saved.id, "secret-token");
+
+    assertEquals(await store.get(saved.id), saved);
+    assertEquals((await kv.get(["auth_token", "secret-token"])).value, null);
+
+    const summary = toTokenSummary(saved);
+    assertEquals(summary.masked_token, "****oken");
+    assert(!JSON.stringify(summary).includes("secret-token"));
+
+    // 重复授权同一个Token不会产生新记录
+    const again = await store.save("secret-token", "https://t.example/");
+    assertEquals(again.id, saved.id);
+    assertEquals((await store.list()).length, 1);
+
+    assertEquals(await store.delete(saved.id), true);
+    assertEquals(await store.delete(saved.id), false);
+    assertEquals(await store.list(), []);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("legacy token-keyed entries are migrated to ID keys", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const store = createTokenStore(kv);
+  try {
+    await kv.set(["auth_token", "legacy-token"], {
+      token: "legacy-token",
+      tenant_url: "https://t.example/",
+      created_at: 1,
+    });
+    const fresh = await store.save("fresh-token", "https://t.example/");
+
+    assertEquals(await migrateLegacyTokens(kv), 1);
+    assertEquals((await kv.get(["auth_token", "legacy-token"])).value, null);
+
+    const tokens = await store.list();
+    assertEquals(tokens.length, 2);
+    const legacy = tokens.find((t) => t.token === "legacy-token")!;
+    assert(legacy.id);
+    assertEquals(legacy.created_at, 1);
+    assert(tokens.some((t) => t.id === fresh.id));
+
+    // 重复执行不会再次迁移
+    assertEquals(await migrateLegacyTokens(kv), 0);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("tokens are encrypted at rest when a key is configured", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const cipher = await importTokenKey(generateTokenKey());
+  const store = createTokenStore(kv, cipher);
+  try {
+    const saved = await store.save("secret-token", "https://t.example/");
+    const raw = await kv.get<StoredToken>(["auth_token", saved.id]);
+    assertEquals(raw.value?.token, undefined);
+    assertEquals(raw.value?.token_enc?.kid, cipher.kid);
+    assert(!JSON.stringify(raw.value).includes("secret-token"));
+
+    assertEquals(await store.get(saved.id), saved);
+    await assertRejects(() => createTokenStore(kv).list(), TokenKeyError);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("startup fails when encrypted records exist without a key", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const cipher = await importTokenKey(generateTokenKey());
+  try {
+    await createTokenStore(kv, cipher).save("t", "https://t.example/");
+    await assertRejects(
+      () => prepareTokenStore(kv, null),
+      TokenKeyError,
+      "TOKEN_ENCRYPTION_KEY",
+    );
+
+    const other = await importTokenKey(generateTokenKey());
+    await assertRejects(
+      () => prepareTokenStore(kv, other),
+      TokenKeyError,
+      "不匹配",
+    );
+
+    await prepareTokenStore(kv, cipher);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("startup encrypts leftover plaintext records", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const cipher = await importTokenKey(generateTokenKey());
+  try {
+    const saved = await createTokenStore(kv).save("t", "https://t.example/");
+    await prepareTokenStore(kv, cipher);
+
+    const raw = await kv.get<StoredToken>(["auth_token", saved.id]);
+    assertEquals(raw.value?.token, undefined);
+    assertEquals(await createTokenStore(kv, cipher).get(saved.id), saved);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("reencryptTokens rotates every record to the new key", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const oldCipher = await importTokenKey(generateTokenKey());
+  const newCipher = await importTokenKey(generateTokenKey());
+  try {
+    const oldStore = createTokenStore(kv, oldCipher);
+    const a = await oldStore.save("token-a", "https://t.example/");
+    const b = await oldStore.save("token-b", "https://t.example/");
+
+    assertEquals(await reencryptTokens(kv, oldCipher, newCipher), 2);
+    assertEquals(await reencryptTokens(kv, oldCipher, newCipher), 0);
+
+    const newStore = createTokenStore(kv, newCipher);
+    assertEquals(await newStore.get(a.id), a);
+    assertEquals(await newStore.get(b.id), b);
+    await assertRejects(() => oldStore.list(), TokenKeyError);
+  } finally {
+    kv.close();
+  }
+});
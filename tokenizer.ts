@@ -0,0 +1,86 @@
+// BPE 分词计数：使用 cl100k_base 编码表，词表随依赖包一起打包，运行时无需联网
+import { encode } from "npm:gpt-tokenizer@2.9.0/encoding/cl100k_base";
+import { AugmentRequest, ToolCall } from "./types.ts";
+
+// 特殊标记按普通文本计数，避免用户输入中的 <|endoftext|> 导致异常
+const encodeOptions = { disallowedSpecial: new Set<string>() };
+
+export function countTokens(text: string | undefined): number {
+  if (!text) return 0;
+  return encode(text, encodeOptions).length;
+}
+
+// 截取不超过 maxTokens 个token的最长前缀，按码点二分查找。不解码token：
+// 依赖包的 decode 共用一个流式 TextDecoder，截断在多字节字符中间时会把残留字节带入之后的解码
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (countTokens(text) <= maxTokens) return text;
+  const chars = Array.from(text);
+  let low = 0;
+  let high = chars.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (countTokens(chars.slice(0, mid).join("")) <= maxTokens) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return chars.slice(0, low).join("");
+}
+
+// cl100k_base 先按正则把文本切成片段再分别编码，下列位置一定是片段边界，
+// 之前的token不受后续文本影响：字母或数字之后、下一个字符之前，且该字符后接字母；
+// 符号之后的空格或制表符之前，且其后接字母；换行之后接非空白字符
+const pieceBoundary =
+  /[\p{L}\p{N}](?=[^\r\n\p{L}\p{N}]\p{L})|[^\s\p{L}\p{N}](?=[^\S\r\n]\p{L})|\n(?=\S)/gu;
+
+// 最后一个片段边界的位置，之前的文本可以单独计数；没有边界时返回 0
+export function stableTokenPrefix(text: string): number {
+  let end = 0;
+  for (const match of text.matchAll(pieceBoundary)) {
+    end = match.index + match[0].length;
+  }
+  return end;
+}
+
+// 上游实际收到的全部内容：当前消息、注入内容、历史对话、工具定义与工具结果。
+// 对话请求的 suffix 固定为占位的空格，不计入；文本补全由调用方另加光标后的代码
+export function countPromptTokens(augmentReq: AugmentRequest): number {
+  let tokens = countTokens(augmentReq.message) +
+    countTokens(augmentReq.prefix) +
+    countTokens(augmentReq.userGuideLines);
+
+  for (const history of augmentReq.chatHistory) {
+    tokens += countTokens(history.requestMessage);
+    tokens += countTokens(history.responseText);
+    for (const node of history.requestNodes ?? []) {
+      tokens += countTokens(node.toolResult?.content);
+    }
+    for (const node of history.responseNodes ?? []) {
+      tokens += countTokens(node.toolUse?.toolName);
+      tokens += countTokens(node.toolUse?.inputJSON);
+    }
+  }
+  for (const node of augmentReq.nodes ?? []) {
+    tokens += countTokens(node.toolResult?.content);
+  }
+  for (const tool of augmentReq.toolDefinitions ?? []) {
+    tokens += countTokens(tool.name) +
+      countTokens(tool.description) +
+      countTokens(tool.inputSchemaJSON);
+  }
+  return tokens;
+}
+
+// 回复文本与工具调用参数
+export function countCompletionTokens(
+  text: string,
+  toolCalls: ToolCall[] = [],
+): number {
+  let tokens = countTokens(text);
+  for (const call of toolCalls) {
+    tokens += countTokens(call.function.name);
+    tokens += countTokens(call.function.arguments);
+  }
+  return tokens;
+}
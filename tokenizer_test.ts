@@ -0,0 +1,72 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+  countCompletionTokens,
+  countPromptTokens,
+  countTokens,
+  stableTokenPrefix,
+  truncateToTokens,
+} from "./tokenizer.ts";
+import { AugmentRequest } from "./types.ts";
+
+Deno.test("countTokens uses cl100k_base BPE", () => {
+  assertEquals(countTokens(""), 0);
+  assertEquals(countTokens("hello world"), 2);
+  assertEquals(countTokens("Hello, world! 你好世界"), 10);
+  // 特殊标记按普通文本计数而不是抛出异常
+  assert(countTokens("<|endoftext|>") > 1);
+});
+
+Deno.test("prompt tokens include injected and history text", () => {
+  const base: AugmentRequest = {
+    chatHistory: [],
+    message: "hello world",
+    mode: "CHAT",
+  };
+  assertEquals(countPromptTokens(base), 2);
+
+  const full: AugmentRequest = {
+    ...base,
+    prefix: "hello world",
+    userGuideLines: "hello world",
+    chatHistory: [{ requestMessage: "hello world", responseText: "hello" }],
+  };
+  assertEquals(countPromptTokens(full), 9);
+});
+
+Deno.test("completion tokens include tool call arguments", () => {
+  assertEquals(
+    countCompletionTokens("hello world", [{
+      id: "call_1",
+      type: "function",
+      function: { name: "hello", arguments: "world" },
+    }]),
+    4,
+  );
+});
+
+Deno.test("text before the stable prefix is counted independently", () => {
+  assertEquals(stableTokenPrefix("hello"), 0);
+  assertEquals(stableTokenPrefix("hello world"), 5);
+  assertEquals(stableTokenPrefix("a\n  b"), 0);
+  assertEquals(stableTokenPrefix("}\nreturn"), 2);
+  assertEquals(stableTokenPrefix("one, two"), 4);
+  const text = "It's fine.\n  return x + y;\n}\n中文，测试。 12345 ok!?\r\nOK";
+  for (let cut = 0; cut <= text.length; cut++) {
+    const stable = stableTokenPrefix(text.slice(0, cut));
+    assertEquals(
+      countTokens(text.slice(0, stable)) + countTokens(text.slice(stable)),
+      countTokens(text),
+    );
+  }
+});
+
+Deno.test("truncation never splits or corrupts multi-byte characters", () => {
+  const text = "OK 日本語のテキスト 👍🏽";
+  for (let n = 0; n <= countTokens(text); n++) {
+    const kept = truncateToTokens(text, n);
+    assert(text.startsWith(kept), kept);
+    assert(countTokens(kept) <= n);
+    assert(!kept.includes("\uFFFD"));
+  }
+  assertEquals(truncateToTokens(text, 5), "OK 日本語");
+});
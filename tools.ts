@@ -0,0 +1,105 @@
+import {
+  ChatMessage,
+  Node,
+  OpenAITool,
+  OpenAIToolChoice,
+  RequestNodeType,
+  ResponseNodeType,
+  ToolCall,
+  ToolCallDelta,
+  ToolDefinition,
+  ToolUse,
+} from "./types.ts";
+
+// 将客户端传入的 OpenAI tools 转换为 Augment 工具定义
+export function toToolDefinitions(
+  tools: OpenAITool[],
+  toolChoice?: OpenAIToolChoice,
+): ToolDefinition[] {
+  if (toolChoice === "none") return [];
+
+  let selected = tools.filter((tool) => tool.type === "function");
+  // 指定了具体函数时只下发该函数
+  if (typeof toolChoice === "object" && toolChoice.type === "function") {
+    selected = selected.filter((tool) =>
+      tool.function.name === toolChoice.function.name
+    );
+  }
+
+  return selected.map((tool) => ({
+    name: tool.function.name,
+    description: tool.function.description ?? "",
+    inputSchemaJSON: JSON.stringify(
+      tool.function.parameters ?? { type: "object", properties: {} },
+    ),
+    toolSafety: 0,
+  }));
+}
+
+export function toolUseToToolCall(toolUse: ToolUse): ToolCall {
+  return {
+    id: toolUse.toolUseID,
+    type: "function",
+    function: {
+      name: toolUse.toolName,
+      arguments: toolUse.inputJSON || "{}",
+    },
+  };
+}
+
+// 一个工具调用拆分为两段增量：先给出ID与函数名，再给出参数
+export function toolCallDeltas(call: ToolCall, index: number): ToolCallDelta[] {
+  return [
+    {
+      index,
+      id: call.id,
+      type: "function",
+      function: { name: call.function.name, arguments: "" },
+    },
+    {
+      index,
+      function: { arguments: call.function.arguments },
+    },
+  ];
+}
+
+// 提取响应中的工具调用节点
+export function extractToolUses(nodes: Node[] | undefined): ToolUse[] {
+  if (!nodes) return [];
+  return nodes
+    .filter((node) => node.type === ResponseNodeType.TOOL_USE && node.toolUse)
+    .map((node) => node.toolUse!)
+    .filter((toolUse) => toolUse.toolUseID && toolUse.toolName);
+}
+
+// 历史中助手发起的工具调用
+export function toolCallToNode(call: ToolCall, id: number): Node {
+  return {
+    id,
+    type: ResponseNodeType.TOOL_USE,
+    content: "",
+    toolUse: {
+      toolUseID: call.id,
+      toolName: call.function.name,
+      inputJSON: call.function.arguments,
+    },
+  };
+}
+
+// role 为 tool 的消息转换为工具结果节点
+export function toolResultToNode(
+  message: ChatMessage,
+  content: string,
+  id: number,
+): Node {
+  return {
+    id,
+    type: RequestNodeType.TOOL_RESULT,
+    content: "",
+    toolResult: {
+      toolUseID: message.tool_call_id ?? "",
+      content,
+      isError: false,
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { assertEquals } from "@std/assert";
+import {
+  extractToolUses,
+  toolCallDeltas,
+  toolUseToToolCall,
+  toToolDefinitions,
+} from "./tools.ts";
+import { OpenAITool, ResponseNodeType } from "./types.ts";
+
+const tools: OpenAITool[] = [
+  {
+    type: "function",
+    function: {
+      name: "get_weather",
+      description: "Get the weather",
+      parameters: {
+        type: "object",
+        properties: { city: { type: "string" } },
+        required: ["city"],
+      },
+    },
+  },
+  { type: "function", function: { name: "noop" } },
+];
+
+Deno.test("OpenAI tools become Augment tool definitions", () => {
+  const defs = toToolDefinitions(tools);
+  assertEquals(defs.map((d) => d.name), ["get_weather", "noop"]);
+  assertEquals(defs[0].description, "Get the weather");
+  assertEquals(
+    JSON.parse(defs[0].inputSchemaJSON),
+    tools[0].function.parameters,
+  );
+  assertEquals(JSON.parse(defs[1].inputSchemaJSON), {
+    type: "object",
+    properties: {},
+  });
+});
+
+Deno.test("tool_choice narrows or disables the tool list", () => {
+  assertEquals(toToolDefinitions(tools, "none"), []);
+  assertEquals(toToolDefinitions(tools, "auto").length, 2);
+  assertEquals(
+    toToolDefinitions(tools, {
+      type: "function",
+      function: { name: "noop" },
+    }).map((d) => d.name),
+    ["noop"],
+  );
+});
+
+Deno.test("tool use nodes convert to OpenAI tool calls", () => {
+  const uses = extractToolUses([
+    { id: 0, type: ResponseNodeType.RAW_RESPONSE, content: "hi" },
+    {
+      id: 1,
+      type: ResponseNodeType.TOOL_USE,
+      content: "",
+      toolUse: {
+        toolUseID: "call_1",
+        toolName: "get_weather",
+        inputJSON: '{"city":"Paris"}',
+      },
+    },
+  ]);
+  assertEquals(uses.length, 1);
+
+  const call = toolUseToToolCall(uses[0]);
+  assertEquals(call, {
+    id: "call_1",
+    type: "function",
+    function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+  });
+
+  assertEquals(toolCallDeltas(call, 2), [
+    {
+      index: 2,
+      id: "call_1",
+      type: "function",
+      function: { name: "get_weather", arguments: "" },
+    },
+    { index: 2, function: { arguments: '{"city":"Paris"}' } },
+  ]);
+});
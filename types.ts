@@ -16,12 +16,58 @@ export interface AgentMemory {
   content: string;
 }
 
+// 模型的思考过程
+export interface Thinking {
+  summary: string;
+}
+
+export interface ToolResult {
+  toolUseID: string;
+  content: string;
+  isError: boolean;
+}
+
+// 图片节点，imageData 为 base64 编码的图片内容
+export interface ImageNode {
+  imageData: string;
+  format: number;
+}
+
+// 图片节点支持的格式
+export const ImageFormat = {
+  PNG: 1,
+  JPEG: 2,
+  GIF: 3,
+  WEBP: 4,
+} as const;
+
+// 响应节点类型
+export const ResponseNodeType = {
+  RAW_RESPONSE: 0,
+  SUGGESTED_QUESTIONS: 1,
+  MAIN_TEXT_FINISHED: 2,
+  TOOL_USE: 5,
+  AGENT_MEMORY: 6,
+  TOOL_USE_START: 7,
+  THINKING: 8,
+} as const;
+
+// 请求节点类型
+export const RequestNodeType = {
+  TEXT: 0,
+  TOOL_RESULT: 1,
+  IMAGE: 2,
+} as const;
+
 export interface Node {
   id: number;
   type: number;
   content: string;
-  toolUse: ToolUse;
-  agentMemory: AgentMemory;
+  toolUse?: ToolUse;
+  agentMemory?: AgentMemory;
+  thinking?: Thinking;
+  toolResult?: ToolResult;
+  imageNode?: ImageNode;
 }
 
 // 修改 AugmentChatHistory 接口
@@ -72,18 +118,99 @@ export interface OpenAIModelList {
 
 
 export interface TokenData {
+  id: string;
   token: string;
   tenant_url: string;
   created_at: number;
 }
 
+// AES-GCM 密文
+export interface EncryptedValue {
+  kid: string;
+  iv: string;
+  data: string;
+}
+
+// KV 中实际存储的Token记录；配置密钥后 token 字段以密文保存
+export interface StoredToken {
+  id: string;
+  tenant_url: string;
+  created_at: number;
+  token?: string;
+  token_enc?: EncryptedValue;
+}
+
+// 返回给管理页面的Token信息，不包含原始Token
+export interface TokenSummary {
+  id: string;
+  masked_token: string;
+  tenant_url: string;
+  created_at: number;
+}
+
 // 定义接口
 export interface OpenAIRequest {
   model: string;
   messages: ChatMessage[];
   stream?: boolean;
+  // 以下采样参数上游不支持，按 UNSUPPORTED_PARAMS 拒绝或忽略
   temperature?: number;
+  top_p?: number;
+  n?: number;
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  // max_tokens 与 stop 在服务端截断输出
   max_tokens?: number;
+  stop?: string | string[];
+  tools?: OpenAITool[];
+  tool_choice?: OpenAIToolChoice;
+  stream_options?: {
+    include_usage?: boolean;
+  };
+  // 扩展字段：当前文件路径与语言，lang 未指定时根据对话内容判断
+  metadata?: RequestMetadata;
+}
+
+export interface RequestMetadata {
+  path?: string;
+  lang?: string;
+}
+
+// OpenAI 工具定义
+export interface OpenAITool {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
+}
+
+export type OpenAIToolChoice =
+  | "none"
+  | "auto"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
+export interface ToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+// 流式响应中的增量工具调用
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: "function";
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
 }
 
 export interface OpenAIResponse {
@@ -91,6 +218,7 @@ export interface OpenAIResponse {
   object: string;
   created: number;
   model: string;
+  system_fingerprint?: string;
   choices: Choice[];
   usage: Usage;
 }
@@ -98,32 +226,143 @@ export interface OpenAIResponse {
 export interface OpenAIStreamResponse {
   id: string;
   object: string;
+  // 同一响应的所有分块相同
   created: number;
   model: string;
+  system_fingerprint?: string;
   choices: StreamChoice[];
+  // 开启 stream_options.include_usage 时，仅最后一个分块带有用量
+  usage?: Usage | null;
 }
 
 export interface StreamChoice {
   index: number;
-  delta: ChatMessage;
+  delta: StreamDelta;
   finish_reason: string | null;
 }
 
+export interface StreamDelta {
+  role?: string;
+  content?: string | null;
+  // 思考过程，与 reasoning_content 的常见用法一致
+  reasoning_content?: string;
+  tool_calls?: ToolCallDelta[];
+  // 扩展字段：未映射到标准字段的上游节点
+  augment_nodes?: Node[];
+}
+
 export interface Choice {
   index: number;
   message: ChatMessage;
   finish_reason: string | null;
 }
 
+// OpenAI 消息内容块
+export interface TextContentPart {
+  type: "text";
+  text: string;
+}
+
+export interface ImageContentPart {
+  type: "image_url";
+  image_url: {
+    // data URL 或远程图片地址
+    url: string;
+    detail?: "auto" | "low" | "high";
+  };
+}
+
+export interface AudioContentPart {
+  type: "input_audio";
+  input_audio: {
+    data: string;
+    format: string;
+  };
+}
+
+export interface FileContentPart {
+  type: "file";
+  file: {
+    file_id?: string;
+    filename?: string;
+    file_data?: string;
+  };
+}
+
+export type ContentPart =
+  | TextContentPart
+  | ImageContentPart
+  | AudioContentPart
+  | FileContentPart
+  | { type: string; [key: string]: unknown };
+
 export interface ChatMessage {
   role: string;
-  content: any;
+  content: string | ContentPart[] | null;
+  name?: string;
+  tool_calls?: ToolCall[];
+  // role 为 tool 时对应的调用ID
+  tool_call_id?: string;
+  // 以下两项只出现在响应中，含义同 StreamDelta
+  reasoning_content?: string;
+  augment_nodes?: Node[];
+}
+
+// 提示词配置注入的内容，已计入 prompt_tokens
+export interface InjectedUsage {
+  name: string;
+  injected_tokens: number;
 }
 
 export interface Usage {
   prompt_tokens: number;
   completion_tokens: number;
   total_tokens: number;
+  prompt_profile?: InjectedUsage;
+}
+
+// 旧版 /v1/completions 请求：prompt 为光标前的代码，suffix 为光标后的代码
+export interface CompletionRequest {
+  model: string;
+  // 只支持单个 prompt，数组形式时只能有一项
+  prompt: string | string[];
+  suffix?: string;
+  stream?: boolean;
+  max_tokens?: number;
+  stop?: string | string[];
+  stream_options?: {
+    include_usage?: boolean;
+  };
+  // path 与 lang 填入上游请求的同名字段
+  metadata?: RequestMetadata;
+  // 以下参数上游不支持，按 UNSUPPORTED_PARAMS 拒绝或忽略
+  temperature?: number;
+  top_p?: number;
+  n?: number;
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  echo?: boolean;
+  best_of?: number;
+}
+
+export interface CompletionChoice {
+  text: string;
+  index: number;
+  logprobs: null;
+  finish_reason: string | null;
+}
+
+// 非流式响应与流式分块的格式相同
+export interface CompletionResponse {
+  id: string;
+  object: "text_completion";
+  created: number;
+  model: string;
+  system_fingerprint?: string;
+  choices: CompletionChoice[];
+  // 流式请求开启 include_usage 时，仅最后一个分块带有用量
+  usage?: Usage | null;
 }
 
 export interface AugmentRequest {
@@ -137,10 +376,99 @@ export interface AugmentChatHistory {
   requestMessage: string;
 }
 
+// 上游 chat-stream 的一行响应
 export interface AugmentResponse {
+  // 本行新增的回复文本
   text: string;
+  // 最后一行为 true
   done: boolean;
+  // 工具调用、思考过程、记忆等结构化内容
+  nodes?: Node[];
+  // 上游未找到的 blob 与检查点；请求不带工作区内容，目前不使用
+  unknown_blob_names?: string[];
+  checkpoint_not_found?: boolean;
+}
+
+// Anthropic Messages API 请求与响应
+export interface AnthropicTextBlock {
+  type: "text";
+  text: string;
+}
+
+export interface AnthropicToolUseBlock {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: unknown;
+}
+
+export interface AnthropicToolResultBlock {
+  type: "tool_result";
+  tool_use_id: string;
+  content?: string | AnthropicTextBlock[];
+  is_error?: boolean;
+}
+
+export interface AnthropicImageBlock {
+  type: "image";
+  source:
+    | { type: "base64"; media_type: string; data: string }
+    | { type: "url"; url: string };
+}
+
+export interface AnthropicThinkingBlock {
+  type: "thinking";
+  thinking: string;
+  // 上游不提供签名，始终为空串
+  signature: string;
+}
+
+export type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | AnthropicToolUseBlock
+  | AnthropicToolResultBlock
+  | { type: string; [key: string]: unknown };
+
+export interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
 }
 
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema?: Record<string, unknown>;
+}
 
+export interface AnthropicRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  system?: string | AnthropicTextBlock[];
+  max_tokens: number;
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stop_sequences?: string[];
+  tools?: AnthropicTool[];
+  tool_choice?: { type: "auto" | "any" | "tool" | "none"; name?: string };
+}
+
+export interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+  prompt_profile?: InjectedUsage;
+}
 
+export interface AnthropicResponse {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content:
+    (AnthropicThinkingBlock | AnthropicTextBlock | AnthropicToolUseBlock)[];
+  stop_reason: string | null;
+  stop_sequence: string | null;
+  usage: AnthropicUsage;
+}
@@ -0,0 +1,152 @@
+import { randomUUID } from "node:crypto";
+import { AugmentRequest } from "./types.ts";
+
+// 上游调用所需的租户信息
+export interface UpstreamTarget {
+  token: string;
+  tenant_url: string;
+}
+
+// 上游客户端接口，便于在测试中替换为本地模拟服务
+export interface AugmentClient {
+  chatStream(
+    target: UpstreamTarget,
+    augmentReq: AugmentRequest,
+    signal?: AbortSignal,
+  ): Promise<Response>;
+}
+
+const userAgents = [
+  "augment.intellij/0.160.0 (Mac OS X; aarch64; 15.2) GoLand/2024.3.5",
+  "augment.intellij/0.160.0 (Mac OS X; aarch64; 15.2) WebStorm/2024.3.5",
+  "augment.intellij/0.160.0 (Mac OS X; aarch64; 15.2) PyCharm/2024.3.5",
+];
+
+// 默认实现：直接请求租户的 chat-stream 接口
+export const fetchAugmentClient: AugmentClient = {
+  chatStream(target, augmentReq, signal) {
+    return fetch(`${target.tenant_url}chat-stream`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${target.token}`,
+        "User-Agent": userAgents[Math.floor(Math.random() * userAgents.length)],
+        "x-api-version": "2",
+        "x-request-id": randomUUID(),
+        "x-request-session-id": randomUUID(),
+      },
+      body: JSON.stringify(augmentReq),
+      signal,
+    });
+  },
+};
+
+// 上游超时设置（毫秒）：建立连接、收到首个数据块、两个数据块之间
+export interface UpstreamTimeouts {
+  connectMs: number;
+  firstByteMs: number;
+  idleMs: number;
+}
+
+export type UpstreamTimeoutPhase = "connect" | "first_byte" | "idle";
+
+export class UpstreamTimeoutError extends Error {
+  constructor(public phase: UpstreamTimeoutPhase, public ms: number) {
+    super(`上游${timeoutPhaseNames[phase]}超时（${ms}ms）`);
+    this.name = "UpstreamTimeoutError";
+  }
+}
+
+const timeoutPhaseNames: Record<UpstreamTimeoutPhase, string> = {
+  connect: "连接",
+  first_byte: "首个响应",
+  idle: "响应间隔",
+};
+
+function envMs(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// 从环境变量读取超时设置，未配置时使用默认值
+export function loadUpstreamTimeouts(): UpstreamTimeouts {
+  return {
+    connectMs: envMs("UPSTREAM_CONNECT_TIMEOUT_MS", 10_000),
+    firstByteMs: envMs("UPSTREAM_FIRST_BYTE_TIMEOUT_MS", 60_000),
+    idleMs: envMs("UPSTREAM_IDLE_TIMEOUT_MS", 30_000),
+  };
+}
+
+// 在 ms 毫秒内未完成时中止请求并抛出超时错误；请求被中止时立即结束等待
+async function withTimeout<T>(
+  promise: Promise<T>,
+  phase: UpstreamTimeoutPhase,
+  ms: number,
+  abort: AbortController,
+): Promise<T> {
+  // 超时或中止后原 promise 仍可能失败，避免产生未处理的 rejection
+  promise.catch(() => {});
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort = () => {};
+  const interrupted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(abort.signal.reason);
+    timer = setTimeout(() => {
+      abort.abort(new UpstreamTimeoutError(phase, ms));
+    }, ms);
+  });
+  if (abort.signal.aborted) onAbort();
+  abort.signal.addEventListener("abort", onAbort);
+  try {
+    return await Promise.race([promise, interrupted]);
+  } finally {
+    clearTimeout(timer);
+    abort.signal.removeEventListener("abort", onAbort);
+  }
+}
+
+// 一次上游调用：请求与响应体的读取共用一个 AbortController，
+// 客户端断开或超时时中止整个请求
+export interface UpstreamCall {
+  response: Response;
+  read(): Promise<ReadableStreamReadResult<Uint8Array>>;
+  cancel(reason?: unknown): void;
+}
+
+export async function callUpstream(
+  client: AugmentClient,
+  target: UpstreamTarget,
+  augmentReq: AugmentRequest,
+  timeouts: UpstreamTimeouts,
+  abort: AbortController = new AbortController(),
+): Promise<UpstreamCall> {
+  const response = await withTimeout(
+    client.chatStream(target, augmentReq, abort.signal),
+    "connect",
+    timeouts.connectMs,
+    abort,
+  );
+  // 首次读取时才锁定响应体，状态码异常时仍可读取错误信息
+  let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+  let received = false;
+
+  return {
+    response,
+    async read() {
+      reader ??= response.body?.getReader();
+      if (!reader) return { done: true, value: undefined };
+      const result = await withTimeout(
+        reader.read(),
+        received ? "idle" : "first_byte",
+        received ? timeouts.idleMs : timeouts.firstByteMs,
+        abort,
+      );
+      received = true;
+      return result;
+    },
+    cancel(reason) {
+      if (!abort.signal.aborted) abort.abort(reason);
+      const body = reader ?? response.body;
+      body?.cancel(reason).catch(() => {});
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+  AugmentClient,
+  callUpstream,
+  UpstreamTimeoutError,
+  UpstreamTimeouts,
+} from "./upstream.ts";
+import { AugmentRequest } from "./types.ts";
+
+const target = { token: "t", tenant_url: "https://tenant.invalid/" };
+const augmentReq = {
+  message: "Hi",
+  chatHistory: [],
+} as unknown as AugmentRequest;
+const timeouts: UpstreamTimeouts = {
+  connectMs: 50,
+  firstByteMs: 50,
+  idleMs: 50,
+};
+
+// 上游响应体：先输出给定的行，之后保持连接但不再发送数据
+function stalledBody(...lines: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const line of lines) controller.enqueue(encoder.encode(line));
+    },
+  });
+}
+
+// 返回超时发生的阶段；未超时时测试失败
+async function timeoutPhase(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof UpstreamTimeoutError) return error.phase;
+    throw error;
+  }
+  throw new Error("expected an upstream timeout");
+}
+
+Deno.test("connect timeout aborts the upstream request", async () => {
+  let signal: AbortSignal | undefined;
+  const client: AugmentClient = {
+    chatStream(_target, _req, abortSignal) {
+      signal = abortSignal;
+      return new Promise(() => {});
+    },
+  };
+  assertEquals(
+    await timeoutPhase(callUpstream(client, target, augmentReq, timeouts)),
+    "connect",
+  );
+  assert(signal?.aborted);
+});
+
+Deno.test("first byte and idle timeouts apply to body reads", async () => {
+  const client: AugmentClient = {
+    chatStream: () => Promise.resolve(new Response(stalledBody())),
+  };
+  const silent = await callUpstream(client, target, augmentReq, timeouts);
+  assertEquals(await timeoutPhase(silent.read()), "first_byte");
+
+  const slowClient: AugmentClient = {
+    chatStream: () => Promise.resolve(new Response(stalledBody("a\n"))),
+  };
+  const slow = await callUpstream(slowClient, target, augmentReq, timeouts);
+  assertEquals((await slow.read()).done, false);
+  assertEquals(await timeoutPhase(slow.read()), "idle");
+});
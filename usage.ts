@@ -0,0 +1,204 @@
+import { Router } from "https://deno.land/x/oak@v12.6.2/mod.ts";
+import { AdminGuard } from "./admin_auth.ts";
+
+const usagePrefix = ["usage"];
+const dayMs = 24 * 60 * 60 * 1000;
+const dayPattern = /^\d{4}-\d{2}-\d{2}$/;
+// 未指定时间范围时统计最近30天
+const defaultRangeDays = 30;
+// 记录默认保留90天，之后由 KV 自动删除
+const defaultRetentionDays = 90;
+
+export function loadUsageRetentionDays(): number {
+  const value = Number(Deno.env.get("USAGE_RETENTION_DAYS"));
+  return Number.isInteger(value) && value > 0 ? value : defaultRetentionDays;
+}
+
+// 每次补全请求写入一条记录
+export interface UsageRecord {
+  id: string;
+  // 共享 OAUTH_TOKEN 或未开启鉴权时为 null
+  key_id: string | null;
+  key_name: string | null;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  // 返回给客户端的状态码；流式请求中途失败时为对应错误的状态码
+  status: number;
+  created_at: number;
+}
+
+// 按UTC日期、密钥、模型汇总
+export interface UsageRow {
+  day: string;
+  key_id: string | null;
+  key_name: string | null;
+  model: string;
+  requests: number;
+  errors: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  avg_latency_ms: number;
+}
+
+export interface UsageStore {
+  record(record: Omit<UsageRecord, "id">): Promise<UsageRecord>;
+  // 返回 [from, to) 时间范围内的记录，按时间排序
+  list(from: number, to: number): Promise<UsageRecord[]>;
+}
+
+export function createUsageStore(
+  kv: Deno.Kv,
+  retentionDays = loadUsageRetentionDays(),
+): UsageStore {
+  return {
+    async record(input) {
+      const record: UsageRecord = { ...input, id: crypto.randomUUID() };
+      await kv.set([...usagePrefix, record.created_at, record.id], record, {
+        expireIn: retentionDays * dayMs,
+      });
+      return record;
+    },
+
+    async list(from, to) {
+      const records: UsageRecord[] = [];
+      const entries = kv.list<UsageRecord>({
+        start: [...usagePrefix, from],
+        end: [...usagePrefix, to],
+      });
+      for await (const entry of entries) {
+        records.push(entry.value);
+      }
+      return records;
+    },
+  };
+}
+
+function dayOf(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+export function aggregateUsage(records: UsageRecord[]): UsageRow[] {
+  const rows = new Map<string, UsageRow & { latency_total: number }>();
+  for (const record of records) {
+    const day = dayOf(record.created_at);
+    const id = JSON.stringify([day, record.key_id, record.model]);
+    let row = rows.get(id);
+    if (!row) {
+      row = {
+        day,
+        key_id: record.key_id,
+        key_name: record.key_name,
+        model: record.model,
+        requests: 0,
+        errors: 0,
+        prompt_tokens: 0,
+        completion_tokens: 0,
+        total_tokens: 0,
+        avg_latency_ms: 0,
+        latency_total: 0,
+      };
+      rows.set(id, row);
+    }
+    row.requests++;
+    if (record.status >= 400) row.errors++;
+    row.prompt_tokens += record.prompt_tokens;
+    row.completion_tokens += record.completion_tokens;
+    row.total_tokens += record.prompt_tokens + record.completion_tokens;
+    row.latency_total += record.latency_ms;
+  }
+
+  return [...rows.values()]
+    .map(({ latency_total, ...row }) => ({
+      ...row,
+      avg_latency_ms: Math.round(latency_total / row.requests),
+    }))
+    .sort((a, b) =>
+      a.day.localeCompare(b.day) ||
+      (a.key_name ?? "").localeCompare(b.key_name ?? "") ||
+      a.model.localeCompare(b.model)
+    );
+}
+
+const csvColumns: (keyof UsageRow)[] = [
+  "day",
+  "key_id",
+  "key_name",
+  "model",
+  "requests",
+  "errors",
+  "prompt_tokens",
+  "completion_tokens",
+  "total_tokens",
+  "avg_latency_ms",
+];
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+export function usageToCSV(rows: UsageRow[]): string {
+  const lines = [csvColumns.join(",")];
+  for (const row of rows) {
+    lines.push(csvColumns.map((column) => csvField(row[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+// 解析 from/to 查询参数（UTC日期，包含两端），返回毫秒时间范围 [from, to)
+export function parseUsageRange(
+  from: string | null,
+  to: string | null,
+  now = Date.now(),
+): { from: string; to: string; start: number; end: number } | null {
+  const toDay = to ?? dayOf(now);
+  const end = Date.parse(toDay) + dayMs;
+  if (!dayPattern.test(toDay) || Number.isNaN(end)) return null;
+  const fromDay = from ?? dayOf(end - defaultRangeDays * dayMs);
+  const start = Date.parse(fromDay);
+  if (!dayPattern.test(fromDay) || Number.isNaN(start) || start >= end) {
+    return null;
+  }
+  return { from: fromDay, to: toDay, start, end };
+}
+
+// 注册用量查询路由：?from=&to=&format=csv
+export function registerUsageRoutes(
+  router: Router,
+  store: UsageStore,
+  requireAdmin: AdminGuard,
+) {
+  router.get("/admin/usage", requireAdmin, async (ctx) => {
+    const params = ctx.request.url.searchParams;
+    const range = parseUsageRange(params.get("from"), params.get("to"));
+    if (!range) {
+      ctx.response.status = 400;
+      ctx.response.body = {
+        status: "error",
+        message: "from 和 to 必须是 YYYY-MM-DD 格式，且 from 不晚于 to",
+      };
+      return;
+    }
+
+    const rows = aggregateUsage(await store.list(range.start, range.end));
+    if (params.get("format") === "csv") {
+      ctx.response.type = "text/csv";
+      ctx.response.headers.set(
+        "Content-Disposition",
+        `attachment; filename="usage-${range.from}-${range.to}.csv"`,
+      );
+      ctx.response.body = usageToCSV(rows);
+      return;
+    }
+
+    ctx.response.body = {
+      status: "success",
+      from: range.from,
+      to: range.to,
+      rows,
+    };
+  });
+}
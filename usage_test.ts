@@ -0,0 +1,129 @@
+import { assert, assertEquals } from "@std/assert";
+import { createApp } from "./main.ts";
+import { startMockAugment, textSteps } from "./mock_augment.ts";
+import {
+  aggregateUsage,
+  parseUsageRange,
+  UsageRecord,
+  usageToCSV,
+} from "./usage.ts";
+import { createTokenStore } from "./token_store.ts";
+import { request } from "./test_helpers.ts";
+
+function record(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    id: crypto.randomUUID(),
+    key_id: "k1",
+    key_name: "alice",
+    model: "claude-3.7",
+    prompt_tokens: 10,
+    completion_tokens: 5,
+    latency_ms: 100,
+    status: 200,
+    created_at: Date.parse("2026-03-01T08:00:00Z"),
+    ...overrides,
+  };
+}
+
+Deno.test("usage is aggregated by day, key and model", () => {
+  const rows = aggregateUsage([
+    record({}),
+    record({ latency_ms: 300, status: 502, completion_tokens: 0 }),
+    record({ model: "claude-3-7-sonnet-20250219" }),
+    record({ created_at: Date.parse("2026-03-02T00:00:00Z") }),
+    record({ key_id: null, key_name: null }),
+  ]);
+  assertEquals(rows.map((row) => [row.day, row.key_name, row.model]), [
+    ["2026-03-01", null, "claude-3.7"],
+    ["2026-03-01", "alice", "claude-3-7-sonnet-20250219"],
+    ["2026-03-01", "alice", "claude-3.7"],
+    ["2026-03-02", "alice", "claude-3.7"],
+  ]);
+  assertEquals(rows[2], {
+    day: "2026-03-01",
+    key_id: "k1",
+    key_name: "alice",
+    model: "claude-3.7",
+    requests: 2,
+    errors: 1,
+    prompt_tokens: 20,
+    completion_tokens: 5,
+    total_tokens: 25,
+    avg_latency_ms: 200,
+  });
+});
+
+Deno.test("usage CSV quotes fields and ranges are validated", () => {
+  const csv = usageToCSV(aggregateUsage([record({ key_name: 'a,"b"' })]));
+  assertEquals(
+    csv,
+    "day,key_id,key_name,model,requests,errors,prompt_tokens,completion_tokens,total_tokens,avg_latency_ms\r\n" +
+      '2026-03-01,k1,"a,""b""",claude-3.7,1,0,10,5,15,100\r\n',
+  );
+
+  const now = Date.parse("2026-03-31T12:00:00Z");
+  assertEquals(parseUsageRange(null, null, now), {
+    from: "2026-03-02",
+    to: "2026-03-31",
+    start: Date.parse("2026-03-02T00:00:00Z"),
+    end: Date.parse("2026-04-01T00:00:00Z"),
+  });
+  assertEquals(parseUsageRange("2026-03-05", "2026-03-01"), null);
+  assertEquals(parseUsageRange("yesterday", null), null);
+  assertEquals(parseUsageRange(null, "2026-13-45"), null);
+});
+
+Deno.test("completions are recorded and reported to the admin", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const mock = startMockAugment((req) =>
+    req.message === "fail"
+      ? { status: 500, errorBody: "boom" }
+      : { steps: textSteps("hello") }
+  );
+  Deno.env.set("ADMIN_PASSWORD", "pw");
+  try {
+    await createTokenStore(kv).save("test-token", mock.url);
+    const app = createApp({ kv });
+    const admin = { "X-Admin-Key": "pw" };
+    const created = await request(app, "POST", "/admin/keys", {
+      headers: admin,
+      body: { name: "alice" },
+    });
+    const { secret } = await created.json();
+
+    for (const content of ["Hi", "Hi", "fail"]) {
+      const res = await request(app, "POST", "/v1/chat/completions", {
+        headers: { Authorization: `Bearer ${secret}` },
+        body: { model: "claude-3.7", messages: [{ role: "user", content }] },
+      });
+      await res.body?.cancel();
+    }
+
+    const report = await request(app, "GET", "/admin/usage", {
+      headers: admin,
+    });
+    const { rows } = await report.json();
+    assertEquals(rows.length, 1);
+    assertEquals(rows[0].key_name, "alice");
+    assertEquals(rows[0].model, "claude-3.7");
+    assertEquals(rows[0].requests, 3);
+    assertEquals(rows[0].errors, 1);
+    assert(rows[0].completion_tokens > 0);
+
+    const csv = await request(app, "GET", "/admin/usage?format=csv", {
+      headers: admin,
+    });
+    assertEquals(csv.headers.get("content-type")?.startsWith("text/csv"), true);
+    assertEquals((await csv.text()).trim().split("\r\n").length, 2);
+
+    const invalid = await request(app, "GET", "/admin/usage?from=bad", {
+      headers: admin,
+    });
+    assertEquals(invalid.status, 400);
+    await invalid.body?.cancel();
+  } finally {
+    Deno.env.delete("ADMIN_PASSWORD");
+    kv.close();
+    await mock.close();
+  }
+});
@@ -0,0 +1,692 @@
+import { Context, isHttpError } from "https://deno.land/x/oak@v12.6.2/mod.ts";
+import { ApiError, invalidRequest } from "./errors.ts";
+import { AnthropicRequest, CompletionRequest, OpenAIRequest } from "./types.ts";
+
+// 公开接口的请求体限制
+export interface RequestLimits {
+  // 请求体字节数
+  maxBodyBytes: number;
+  // messages 的条数
+  maxMessages: number;
+  // 单条消息文本的字符数
+  maxMessageChars: number;
+}
+
+function envCount(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+// 从环境变量读取请求限制，未配置时使用默认值
+export function loadRequestLimits(): RequestLimits {
+  return {
+    maxBodyBytes: envCount("REQUEST_MAX_BODY_BYTES", 10 * 1024 * 1024),
+    maxMessages: envCount("REQUEST_MAX_MESSAGES", 1000),
+    maxMessageChars: envCount("REQUEST_MAX_MESSAGE_CHARS", 1_000_000),
+  };
+}
+
+// 上游无法执行的参数：strict 时拒绝，lenient 时忽略
+export type ParamPolicy = "strict" | "lenient";
+
+export function loadParamPolicy(): ParamPolicy {
+  return Deno.env.get("UNSUPPORTED_PARAMS") === "strict" ? "strict" : "lenient";
+}
+
+function bodyTooLarge(limit: number): ApiError {
+  return new ApiError(
+    413,
+    "invalid_request_error",
+    `请求体超过 ${limit} 字节`,
+    "request_too_large",
+  );
+}
+
+// 边读边累计字节数，超过上限时立即中止；分块传输或未声明长度的请求体同样适用
+async function readLimitedBody(
+  stream: ReadableStream<Uint8Array>,
+  maxBytes: number,
+): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      // oak 返回的是 tee 分支，取消要等另一分支也取消才会完成，这里不等待
+      reader.cancel().catch(() => {});
+      throw bodyTooLarge(maxBytes);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+// 读取JSON请求体：超过大小限制时返回 413，不是合法JSON时返回 400
+export async function readJSONBody(
+  ctx: Context,
+  limits: RequestLimits,
+): Promise<unknown> {
+  const declared = ctx.request.headers.get("content-length");
+  if (declared !== null && !/^\d+$/.test(declared.trim())) {
+    throw invalidRequest(
+      "Content-Length 不合法",
+      null,
+      "invalid_content_length",
+    );
+  }
+  if (Number(declared) > limits.maxBodyBytes) {
+    throw bodyTooLarge(limits.maxBodyBytes);
+  }
+
+  let bytes: Uint8Array = new Uint8Array();
+  try {
+    if (ctx.request.hasBody) {
+      bytes = await readLimitedBody(
+        ctx.request.body({ type: "stream" }).value,
+        limits.maxBodyBytes,
+      );
+    }
+  } catch (error) {
+    // oak 解析请求时的错误都由请求本身引起
+    if (isHttpError(error)) {
+      throw error.status === 413
+        ? bodyTooLarge(limits.maxBodyBytes)
+        : invalidRequest(error.message, null, "invalid_body");
+    }
+    throw error;
+  }
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw invalidRequest("请求体不是合法的JSON", null, "invalid_json");
+  }
+}
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function missing(param: string): ApiError {
+  return invalidRequest(
+    `缺少必填参数: ${param}`,
+    param,
+    "missing_required_parameter",
+  );
+}
+
+function wrongType(param: string, expected: string): ApiError {
+  return invalidRequest(`${param} 必须是${expected}`, param, "invalid_type");
+}
+
+function invalidValue(param: string, message: string): ApiError {
+  return invalidRequest(message, param, "invalid_value");
+}
+
+function requireBody(body: unknown): Fields {
+  if (!isObject(body)) {
+    throw invalidRequest("请求体必须是JSON对象", null, "invalid_type");
+  }
+  return body;
+}
+
+function requireString(fields: Fields, key: string, param = key): string {
+  const value = fields[key];
+  if (value === undefined || value === null || value === "") {
+    throw missing(param);
+  }
+  if (typeof value !== "string") throw wrongType(param, "字符串");
+  return value;
+}
+
+function optionalType(
+  fields: Fields,
+  key: string,
+  type: "string" | "boolean" | "number",
+  param = key,
+) {
+  const value = fields[key];
+  if (value === undefined || value === null) return;
+  const names = { string: "字符串", boolean: "布尔值", number: "数字" };
+  const actual: string = typeof value;
+  if (actual !== type) throw wrongType(param, names[type]);
+}
+
+function optionalObject(fields: Fields, key: string, param = key) {
+  const value = fields[key];
+  if (value !== undefined && value !== null && !isObject(value)) {
+    throw wrongType(param, "对象");
+  }
+}
+
+function optionalRange(
+  fields: Fields,
+  key: string,
+  min: number,
+  max: number,
+) {
+  optionalType(fields, key, "number");
+  const value = fields[key] as number | undefined | null;
+  if (typeof value === "number" && (value < min || value > max)) {
+    throw invalidValue(key, `${key} 必须在 ${min} 到 ${max} 之间`);
+  }
+}
+
+function optionalPositiveInteger(fields: Fields, key: string) {
+  const value = fields[key];
+  if (value === undefined || value === null) return;
+  if (!Number.isInteger(value)) throw wrongType(key, "整数");
+  if ((value as number) < 1) throw invalidValue(key, `${key} 必须是正整数`);
+}
+
+function optionalInteger(fields: Fields, key: string) {
+  const value = fields[key];
+  if (value !== undefined && value !== null && !Number.isInteger(value)) {
+    throw wrongType(key, "整数");
+  }
+}
+
+function optionalStringArray(fields: Fields, key: string, max = Infinity) {
+  const value = fields[key];
+  if (value === undefined || value === null) return;
+  if (!Array.isArray(value)) throw wrongType(key, "字符串数组");
+  value.forEach((item, i) => {
+    if (typeof item !== "string") throw wrongType(`${key}[${i}]`, "字符串");
+  });
+  if (value.length > max) {
+    throw invalidRequest(
+      `${key} 最多 ${max} 项`,
+      key,
+      "array_above_max_length",
+    );
+  }
+}
+
+// messages 必须是非空数组，且条数不超过限制
+function requireMessages(fields: Fields, limits: RequestLimits): unknown[] {
+  const messages = fields.messages;
+  if (messages === undefined || messages === null) throw missing("messages");
+  if (!Array.isArray(messages)) throw wrongType("messages", "数组");
+  if (messages.length === 0) {
+    throw invalidRequest("messages 不能为空", "messages", "empty_array");
+  }
+  if (messages.length > limits.maxMessages) {
+    throw invalidRequest(
+      `messages 最多 ${limits.maxMessages} 条，当前 ${messages.length} 条`,
+      "messages",
+      "array_above_max_length",
+    );
+  }
+  return messages;
+}
+
+function checkMessageLength(
+  text: string,
+  param: string,
+  limits: RequestLimits,
+) {
+  if (text.length > limits.maxMessageChars) {
+    throw invalidRequest(
+      `${param} 最多 ${limits.maxMessageChars} 个字符，当前 ${text.length} 个`,
+      param,
+      "string_above_max_length",
+    );
+  }
+}
+
+function validateImageSource(source: unknown, param: string) {
+  if (!isObject(source)) throw missing(param);
+  const type = requireString(source, "type", `${param}.type`);
+  if (type === "base64") {
+    requireString(source, "media_type", `${param}.media_type`);
+    requireString(source, "data", `${param}.data`);
+  } else if (type === "url") {
+    requireString(source, "url", `${param}.url`);
+  } else {
+    throw invalidValue(`${param}.type`, `${param}.type 只能是 base64 或 url`);
+  }
+}
+
+// Anthropic 工具结果的内容：字符串或 text 块数组，返回其中的文本
+function toolResultText(content: unknown, param: string): string {
+  if (content === undefined || content === null) return "";
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) throw wrongType(param, "字符串或内容块数组");
+  let text = "";
+  content.forEach((block, i) => {
+    const blockParam = `${param}[${i}]`;
+    if (!isObject(block)) throw wrongType(blockParam, "对象");
+    if (block.type !== "text") {
+      throw invalidValue(
+        `${blockParam}.type`,
+        `${blockParam}.type 只支持 text`,
+      );
+    }
+    if (typeof block.text !== "string") {
+      throw wrongType(`${blockParam}.text`, "字符串");
+    }
+    text += block.text;
+  });
+  return text;
+}
+
+// 内容块数组：每项是带 type 的对象，text 类型需要 text 字段，图片需要地址或数据，
+// 工具调用与工具结果需要对应的ID；返回拼接后的文本，工具结果与调用参数一并计入。
+// 上游是否支持由 prepareContentParts 判断
+function contentPartsText(parts: unknown[], param: string): string {
+  let text = "";
+  parts.forEach((part, i) => {
+    const partParam = `${param}[${i}]`;
+    if (!isObject(part)) throw wrongType(partParam, "对象");
+    requireString(part, "type", `${partParam}.type`);
+    if (part.type === "text") {
+      if (typeof part.text !== "string") {
+        throw wrongType(`${partParam}.text`, "字符串");
+      }
+      text += part.text;
+    } else if (part.type === "image_url") {
+      if (!isObject(part.image_url)) throw missing(`${partParam}.image_url`);
+      requireString(part.image_url, "url", `${partParam}.image_url.url`);
+    } else if (part.type === "image") {
+      // Anthropic 图片块
+      validateImageSource(part.source, `${partParam}.source`);
+    } else if (part.type === "tool_result") {
+      requireString(part, "tool_use_id", `${partParam}.tool_use_id`);
+      optionalType(part, "is_error", "boolean", `${partParam}.is_error`);
+      text += toolResultText(part.content, `${partParam}.content`);
+    } else if (part.type === "tool_use") {
+      requireString(part, "id", `${partParam}.id`);
+      requireString(part, "name", `${partParam}.name`);
+      if (!isObject(part.input)) throw wrongType(`${partParam}.input`, "对象");
+      text += JSON.stringify(part.input);
+    }
+  });
+  return text;
+}
+
+const openAIRoles = ["system", "developer", "user", "assistant", "tool"];
+
+function validateToolCalls(calls: unknown, param: string) {
+  if (!Array.isArray(calls)) throw wrongType(param, "数组");
+  calls.forEach((call, i) => {
+    const callParam = `${param}[${i}]`;
+    if (!isObject(call)) throw wrongType(callParam, "对象");
+    requireString(call, "id", `${callParam}.id`);
+    if (!isObject(call.function)) throw missing(`${callParam}.function`);
+    requireString(call.function, "name", `${callParam}.function.name`);
+    optionalType(
+      call.function,
+      "arguments",
+      "string",
+      `${callParam}.function.arguments`,
+    );
+  });
+}
+
+function validateChatMessage(
+  message: unknown,
+  index: number,
+  limits: RequestLimits,
+) {
+  const param = `messages[${index}]`;
+  if (!isObject(message)) throw wrongType(param, "对象");
+  const role = requireString(message, "role", `${param}.role`);
+  if (!openAIRoles.includes(role)) {
+    throw invalidValue(
+      `${param}.role`,
+      `${param}.role 必须是 ${openAIRoles.join("、")} 之一`,
+    );
+  }
+  optionalType(message, "name", "string", `${param}.name`);
+
+  const content = message.content;
+  const contentParam = `${param}.content`;
+  let text = "";
+  if (typeof content === "string") {
+    text = content;
+  } else if (Array.isArray(content)) {
+    text = contentPartsText(content, contentParam);
+  } else if (content !== undefined && content !== null) {
+    throw wrongType(contentParam, "字符串或内容块数组");
+  } else if (role !== "assistant") {
+    // 只有助手消息可以只带 tool_calls 而没有内容
+    throw missing(contentParam);
+  }
+  checkMessageLength(text, contentParam, limits);
+
+  if (role === "assistant" && message.tool_calls !== undefined) {
+    validateToolCalls(message.tool_calls, `${param}.tool_calls`);
+  }
+  if (role === "tool") {
+    requireString(message, "tool_call_id", `${param}.tool_call_id`);
+  }
+}
+
+const toolNamePattern = /^[a-zA-Z0-9_-]{1,64}$/;
+
+function validateOpenAITools(fields: Fields) {
+  const tools = fields.tools;
+  if (tools === undefined || tools === null) return;
+  if (!Array.isArray(tools)) throw wrongType("tools", "数组");
+  tools.forEach((tool, i) => {
+    const param = `tools[${i}]`;
+    if (!isObject(tool)) throw wrongType(param, "对象");
+    if (tool.type !== "function") {
+      throw invalidValue(`${param}.type`, `${param}.type 只支持 function`);
+    }
+    if (!isObject(tool.function)) throw missing(`${param}.function`);
+    const name = requireString(
+      tool.function,
+      "name",
+      `${param}.function.name`,
+    );
+    if (!toolNamePattern.test(name)) {
+      throw invalidValue(
+        `${param}.function.name`,
+        `${param}.function.name 只能包含字母、数字、下划线和连字符，最长 64 个字符`,
+      );
+    }
+    optionalType(
+      tool.function,
+      "description",
+      "string",
+      `${param}.function.description`,
+    );
+    optionalObject(tool.function, "parameters", `${param}.function.parameters`);
+  });
+}
+
+function validateOpenAIToolChoice(fields: Fields) {
+  const choice = fields.tool_choice;
+  if (choice === undefined || choice === null) return;
+  if (typeof choice === "string") {
+    if (!["none", "auto", "required"].includes(choice)) {
+      throw invalidValue(
+        "tool_choice",
+        "tool_choice 必须是 none、auto、required 或指定的函数",
+      );
+    }
+    return;
+  }
+  if (!isObject(choice)) throw wrongType("tool_choice", "字符串或对象");
+  if (choice.type !== "function") {
+    throw invalidValue("tool_choice.type", "tool_choice.type 只支持 function");
+  }
+  if (!isObject(choice.function)) throw missing("tool_choice.function");
+  const name = requireString(
+    choice.function,
+    "name",
+    "tool_choice.function.name",
+  );
+  // tools 已校验，指定的函数必须在其中，否则上游会收到空的工具列表
+  const tools = Array.isArray(fields.tools) ? fields.tools as Fields[] : [];
+  if (!tools.some((tool) => (tool.function as Fields).name === name)) {
+    throw invalidValue(
+      "tool_choice.function.name",
+      `tool_choice 指定的函数 ${name} 不在 tools 中`,
+    );
+  }
+}
+
+// 扩展字段 metadata：path 与 lang 为字符串，其余键不作限制
+function validateMetadata(fields: Fields) {
+  optionalObject(fields, "metadata");
+  if (isObject(fields.metadata)) {
+    optionalType(fields.metadata, "path", "string", "metadata.path");
+    optionalType(fields.metadata, "lang", "string", "metadata.lang");
+  }
+}
+
+// 校验 /v1/chat/completions 请求体，参数有误时抛出 400，param 指向出错的参数
+export function validateChatCompletionRequest(
+  body: unknown,
+  limits: RequestLimits,
+): OpenAIRequest {
+  const fields = requireBody(body);
+  requireString(fields, "model");
+  requireMessages(fields, limits)
+    .forEach((message, i) => validateChatMessage(message, i, limits));
+  optionalType(fields, "stream", "boolean");
+  optionalRange(fields, "temperature", 0, 2);
+  optionalRange(fields, "top_p", 0, 1);
+  optionalRange(fields, "presence_penalty", -2, 2);
+  optionalRange(fields, "frequency_penalty", -2, 2);
+  optionalPositiveInteger(fields, "n");
+  optionalInteger(fields, "seed");
+  optionalPositiveInteger(fields, "max_tokens");
+  if (typeof fields.stop !== "string") optionalStringArray(fields, "stop", 4);
+  optionalObject(fields, "stream_options");
+  if (isObject(fields.stream_options)) {
+    optionalType(
+      fields.stream_options,
+      "include_usage",
+      "boolean",
+      "stream_options.include_usage",
+    );
+  }
+  validateOpenAITools(fields);
+  validateOpenAIToolChoice(fields);
+  validateMetadata(fields);
+  return fields as unknown as OpenAIRequest;
+}
+
+// prompt 为字符串或只有一项的字符串数组，可以为空串（光标位于文件开头）
+function requirePrompt(fields: Fields): string {
+  const value = fields.prompt;
+  if (value === undefined || value === null) throw missing("prompt");
+  if (typeof value === "string") return value;
+  if (!Array.isArray(value)) throw wrongType("prompt", "字符串");
+  if (value.length !== 1) {
+    throw invalidValue("prompt", "prompt 只支持单个字符串");
+  }
+  if (typeof value[0] !== "string") throw wrongType("prompt[0]", "字符串");
+  return value[0];
+}
+
+// 校验 /v1/completions 请求体
+export function validateCompletionRequest(
+  body: unknown,
+  limits: RequestLimits,
+): CompletionRequest {
+  const fields = requireBody(body);
+  requireString(fields, "model");
+  checkMessageLength(requirePrompt(fields), "prompt", limits);
+  optionalType(fields, "suffix", "string");
+  if (typeof fields.suffix === "string") {
+    checkMessageLength(fields.suffix, "suffix", limits);
+  }
+  optionalType(fields, "stream", "boolean");
+  optionalRange(fields, "temperature", 0, 2);
+  optionalRange(fields, "top_p", 0, 1);
+  optionalRange(fields, "presence_penalty", -2, 2);
+  optionalRange(fields, "frequency_penalty", -2, 2);
+  optionalPositiveInteger(fields, "n");
+  optionalPositiveInteger(fields, "best_of");
+  optionalInteger(fields, "seed");
+  optionalType(fields, "echo", "boolean");
+  optionalPositiveInteger(fields, "max_tokens");
+  if (typeof fields.stop !== "string") optionalStringArray(fields, "stop", 4);
+  optionalObject(fields, "stream_options");
+  if (isObject(fields.stream_options)) {
+    optionalType(
+      fields.stream_options,
+      "include_usage",
+      "boolean",
+      "stream_options.include_usage",
+    );
+  }
+  validateMetadata(fields);
+  return fields as unknown as CompletionRequest;
+}
+
+function validateAnthropicMessage(
+  message: unknown,
+  index: number,
+  limits: RequestLimits,
+) {
+  const param = `messages[${index}]`;
+  if (!isObject(message)) throw wrongType(param, "对象");
+  const role = requireString(message, "role", `${param}.role`);
+  if (role !== "user" && role !== "assistant") {
+    throw invalidValue(
+      `${param}.role`,
+      `${param}.role 只能是 user 或 assistant`,
+    );
+  }
+  const content = message.content;
+  const contentParam = `${param}.content`;
+  if (content === undefined || content === null) throw missing(contentParam);
+  let text: string;
+  if (typeof content === "string") {
+    text = content;
+  } else if (Array.isArray(content)) {
+    text = contentPartsText(content, contentParam);
+  } else {
+    throw wrongType(contentParam, "字符串或内容块数组");
+  }
+  checkMessageLength(text, contentParam, limits);
+}
+
+// 校验 /v1/messages 请求体
+export function validateAnthropicRequest(
+  body: unknown,
+  limits: RequestLimits,
+): AnthropicRequest {
+  const fields = requireBody(body);
+  requireString(fields, "model");
+  requireMessages(fields, limits)
+    .forEach((message, i) => validateAnthropicMessage(message, i, limits));
+  if (fields.max_tokens === undefined || fields.max_tokens === null) {
+    throw missing("max_tokens");
+  }
+  optionalPositiveInteger(fields, "max_tokens");
+  const system = fields.system;
+  if (typeof system !== "string" && system !== undefined && system !== null) {
+    if (!Array.isArray(system)) throw wrongType("system", "字符串或内容块数组");
+    contentPartsText(system, "system");
+  }
+  optionalType(fields, "stream", "boolean");
+  optionalRange(fields, "temperature", 0, 1);
+  optionalRange(fields, "top_p", 0, 1);
+  optionalPositiveInteger(fields, "top_k");
+  optionalStringArray(fields, "stop_sequences");
+
+  const tools = fields.tools;
+  if (tools !== undefined && tools !== null) {
+    if (!Array.isArray(tools)) throw wrongType("tools", "数组");
+    tools.forEach((tool, i) => {
+      if (!isObject(tool)) throw wrongType(`tools[${i}]`, "对象");
+      requireString(tool, "name", `tools[${i}].name`);
+      optionalObject(tool, "input_schema", `tools[${i}].input_schema`);
+    });
+  }
+  optionalObject(fields, "tool_choice");
+  if (isObject(fields.tool_choice)) {
+    const type = fields.tool_choice.type;
+    if (!["auto", "any", "tool", "none"].includes(type as string)) {
+      throw invalidValue(
+        "tool_choice.type",
+        "tool_choice.type 必须是 auto、any、tool 或 none",
+      );
+    }
+    if (type === "tool") {
+      const name = requireString(
+        fields.tool_choice,
+        "name",
+        "tool_choice.name",
+      );
+      const named = Array.isArray(tools) ? tools as Fields[] : [];
+      if (!named.some((tool) => tool.name === name)) {
+        throw invalidValue(
+          "tool_choice.name",
+          `tool_choice 指定的工具 ${name} 不在 tools 中`,
+        );
+      }
+    }
+  }
+  return fields as unknown as AnthropicRequest;
+}
+
+// 上游不支持的参数，值为默认行为时视为未设置；
+// 上游无法强制调用工具，tool_choice 为 required（Anthropic 为 any）时按 auto 处理
+const openAIUnsupportedParams: Record<string, (value: unknown) => boolean> = {
+  temperature: () => true,
+  top_p: () => true,
+  n: (value) => value !== 1,
+  seed: () => true,
+  presence_penalty: () => true,
+  frequency_penalty: () => true,
+  logit_bias: () => true,
+  logprobs: (value) => value !== false,
+  top_logprobs: () => true,
+  tool_choice: (value) => value === "required",
+};
+
+const completionUnsupportedParams: Record<string, (value: unknown) => boolean> =
+  {
+    ...openAIUnsupportedParams,
+    echo: (value) => value !== false,
+    best_of: (value) => value !== 1,
+  };
+
+const anthropicUnsupportedParams: Record<string, (value: unknown) => boolean> =
+  {
+    temperature: () => true,
+    top_p: () => true,
+    top_k: () => true,
+    tool_choice: (value) => isObject(value) && value.type === "any",
+  };
+
+function checkUnsupported(
+  body: unknown,
+  params: Record<string, (value: unknown) => boolean>,
+  policy: ParamPolicy,
+): string[] {
+  const fields = body as Fields;
+  const present = Object.entries(params)
+    .filter(([name, isSet]) =>
+      fields[name] !== undefined && fields[name] !== null && isSet(fields[name])
+    )
+    .map(([name]) => name);
+  if (policy === "strict" && present.length > 0) {
+    throw invalidRequest(
+      `不支持的参数: ${present[0]}`,
+      present[0],
+      "unsupported_parameter",
+    );
+  }
+  return present;
+}
+
+// 返回被忽略的参数名；strict 时遇到不支持的参数返回 400 unsupported_parameter
+export function checkUnsupportedParams(
+  body: OpenAIRequest,
+  policy: ParamPolicy,
+): string[] {
+  return checkUnsupported(body, openAIUnsupportedParams, policy);
+}
+
+export function checkUnsupportedAnthropicParams(
+  body: AnthropicRequest,
+  policy: ParamPolicy,
+): string[] {
+  return checkUnsupported(body, anthropicUnsupportedParams, policy);
+}
+
+export function checkUnsupportedCompletionParams(
+  body: CompletionRequest,
+  policy: ParamPolicy,
+): string[] {
+  return checkUnsupported(body, completionUnsupportedParams, policy);
+}
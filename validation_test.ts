@@ -0,0 +1,394 @@
+import { assert, assertEquals } from "@std/assert";
+import { ApiError } from "./errors.ts";
+import {
+  checkUnsupportedAnthropicParams,
+  checkUnsupportedParams,
+  RequestLimits,
+  validateAnthropicRequest,
+  validateChatCompletionRequest,
+} from "./validation.ts";
+
+const limits: RequestLimits = {
+  maxBodyBytes: 1024,
+  maxMessages: 3,
+  maxMessageChars: 10,
+};
+
+// 返回校验失败时的 [param, code]，校验通过时均为 null
+function rejection(validate: () => unknown): [string | null, string | null] {
+  try {
+    validate();
+    return [null, null];
+  } catch (error) {
+    assert(error instanceof ApiError);
+    assertEquals(error.status, 400);
+    assertEquals(error.type, "invalid_request_error");
+    return [error.param, error.code];
+  }
+}
+
+const user = { role: "user", content: "Hi" };
+
+Deno.test("chat completion requests name the bad parameter", () => {
+  const cases: [unknown, string | null, string][] = [
+    ["text", null, "invalid_type"],
+    [{ messages: [user] }, "model", "missing_required_parameter"],
+    [{ model: 1, messages: [user] }, "model", "invalid_type"],
+    [{ model: "m" }, "messages", "missing_required_parameter"],
+    [{ model: "m", messages: {} }, "messages", "invalid_type"],
+    [{ model: "m", messages: [] }, "messages", "empty_array"],
+    [
+      { model: "m", messages: [user, user, user, user] },
+      "messages",
+      "array_above_max_length",
+    ],
+    [{ model: "m", messages: ["hi"] }, "messages[0]", "invalid_type"],
+    [
+      { model: "m", messages: [{ role: "bot", content: "x" }] },
+      "messages[0].role",
+      "invalid_value",
+    ],
+    [
+      { model: "m", messages: [{ role: "user" }] },
+      "messages[0].content",
+      "missing_required_parameter",
+    ],
+    [
+      { model: "m", messages: [{ role: "user", content: 1 }] },
+      "messages[0].content",
+      "invalid_type",
+    ],
+    [
+      { model: "m", messages: [{ role: "user", content: [{ type: "text" }] }] },
+      "messages[0].content[0].text",
+      "invalid_type",
+    ],
+    [
+      {
+        model: "m",
+        messages: [{ role: "user", content: [{ type: "image_url" }] }],
+      },
+      "messages[0].content[0].image_url",
+      "missing_required_parameter",
+    ],
+    [
+      {
+        model: "m",
+        messages: [user, { role: "user", content: "x".repeat(11) }],
+      },
+      "messages[1].content",
+      "string_above_max_length",
+    ],
+    [
+      { model: "m", messages: [{ role: "tool", content: "ok" }] },
+      "messages[0].tool_call_id",
+      "missing_required_parameter",
+    ],
+    [
+      {
+        model: "m",
+        messages: [{ role: "assistant", content: null, tool_calls: [{}] }],
+      },
+      "messages[0].tool_calls[0].id",
+      "missing_required_parameter",
+    ],
+    [{ model: "m", messages: [user], stream: "yes" }, "stream", "invalid_type"],
+    [
+      { model: "m", messages: [user], temperature: 3 },
+      "temperature",
+      "invalid_value",
+    ],
+    [
+      { model: "m", messages: [user], max_tokens: 1.5 },
+      "max_tokens",
+      "invalid_type",
+    ],
+    [
+      { model: "m", messages: [user], stop: ["a", "b", "c", "d", "e"] },
+      "stop",
+      "array_above_max_length",
+    ],
+    [{ model: "m", messages: [user], stop: 1 }, "stop", "invalid_type"],
+    [{ model: "m", messages: [user], n: 0 }, "n", "invalid_value"],
+    [{ model: "m", messages: [user], top_p: 2 }, "top_p", "invalid_value"],
+    [
+      { model: "m", messages: [user], stream_options: { include_usage: 1 } },
+      "stream_options.include_usage",
+      "invalid_type",
+    ],
+    [
+      {
+        model: "m",
+        messages: [user],
+        tools: [{ type: "function", function: { name: "bad name" } }],
+      },
+      "tools[0].function.name",
+      "invalid_value",
+    ],
+    [
+      { model: "m", messages: [user], tool_choice: "always" },
+      "tool_choice",
+      "invalid_value",
+    ],
+    [
+      {
+        model: "m",
+        messages: [user],
+        tools: [{ type: "function", function: { name: "f" } }],
+        tool_choice: { type: "function", function: { name: "g" } },
+      },
+      "tool_choice.function.name",
+      "invalid_value",
+    ],
+    [
+      { model: "m", messages: [user], metadata: { lang: 1 } },
+      "metadata.lang",
+      "invalid_type",
+    ],
+  ];
+  for (const [body, param, code] of cases) {
+    assertEquals(
+      rejection(() => validateChatCompletionRequest(body, limits)),
+      [param, code],
+      JSON.stringify(body),
+    );
+  }
+});
+
+Deno.test("valid chat completion requests pass through unchanged", () => {
+  const body = {
+    model: "m",
+    messages: [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: [{ type: "text", text: "Hi" }] },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [{
+          id: "call_1",
+          type: "function",
+          function: { name: "f", arguments: "{}" },
+        }],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "done" },
+    ],
+    stream: true,
+    stream_options: { include_usage: true },
+    tools: [{ type: "function", function: { name: "f", parameters: {} } }],
+    tool_choice: { type: "function", function: { name: "f" } },
+  };
+  const validLimits = { ...limits, maxMessages: 10 };
+  assertEquals<unknown>(validateChatCompletionRequest(body, validLimits), body);
+});
+
+Deno.test("anthropic requests name the bad parameter", () => {
+  const cases: [unknown, string | null, string][] = [
+    [
+      { model: "m", messages: [user] },
+      "max_tokens",
+      "missing_required_parameter",
+    ],
+    [
+      { model: "m", max_tokens: 0, messages: [user] },
+      "max_tokens",
+      "invalid_value",
+    ],
+    [
+      {
+        model: "m",
+        max_tokens: 8,
+        messages: [{ role: "system", content: "x" }],
+      },
+      "messages[0].role",
+      "invalid_value",
+    ],
+    [
+      {
+        model: "m",
+        max_tokens: 8,
+        messages: [{
+          role: "user",
+          content: [{ type: "image", source: { type: "file" } }],
+        }],
+      },
+      "messages[0].content[0].source.type",
+      "invalid_value",
+    ],
+    [
+      {
+        model: "m",
+        max_tokens: 8,
+        messages: [{
+          role: "user",
+          content: [{ type: "tool_result", content: "ok" }],
+        }],
+      },
+      "messages[0].content[0].tool_use_id",
+      "missing_required_parameter",
+    ],
+    [
+      {
+        model: "m",
+        max_tokens: 8,
+        messages: [{
+          role: "user",
+          content: [{
+            type: "tool_result",
+            tool_use_id: "t",
+            content: [{ type: "image" }],
+          }],
+        }],
+      },
+      "messages[0].content[0].content[0].type",
+      "invalid_value",
+    ],
+    [
+      {
+        model: "m",
+        max_tokens: 8,
+        messages: [{
+          role: "user",
+          content: [{
+            type: "tool_result",
+            tool_use_id: "t",
+            content: [{ type: "text", text: "x".repeat(11) }],
+          }],
+        }],
+      },
+      "messages[0].content",
+      "string_above_max_length",
+    ],
+    [
+      {
+        model: "m",
+        max_tokens: 8,
+        messages: [{
+          role: "assistant",
+          content: [{ type: "tool_use", id: "t", name: "f" }],
+        }],
+      },
+      "messages[0].content[0].input",
+      "invalid_type",
+    ],
+    [
+      {
+        model: "m",
+        max_tokens: 8,
+        messages: [{
+          role: "assistant",
+          content: [{ type: "tool_use", name: "f", input: {} }],
+        }],
+      },
+      "messages[0].content[0].id",
+      "missing_required_parameter",
+    ],
+    [
+      { model: "m", max_tokens: 8, messages: [user], system: 1 },
+      "system",
+      "invalid_type",
+    ],
+    [
+      { model: "m", max_tokens: 8, messages: [user], tools: [{}] },
+      "tools[0].name",
+      "missing_required_parameter",
+    ],
+    [
+      {
+        model: "m",
+        max_tokens: 8,
+        messages: [user],
+        tool_choice: { type: "x" },
+      },
+      "tool_choice.type",
+      "invalid_value",
+    ],
+    [
+      {
+        model: "m",
+        max_tokens: 8,
+        messages: [user],
+        tools: [{ name: "f" }],
+        tool_choice: { type: "tool", name: "g" },
+      },
+      "tool_choice.name",
+      "invalid_value",
+    ],
+  ];
+  for (const [body, param, code] of cases) {
+    assertEquals(
+      rejection(() => validateAnthropicRequest(body, limits)),
+      [param, code],
+      JSON.stringify(body),
+    );
+  }
+  assertEquals(
+    rejection(() =>
+      validateAnthropicRequest(
+        { model: "m", max_tokens: 8, messages: [user] },
+        limits,
+      )
+    ),
+    [null, null],
+  );
+});
+
+Deno.test("unsupported parameters are listed or rejected", () => {
+  const body = {
+    model: "m",
+    messages: [],
+    temperature: 0.5,
+    n: 1,
+    logprobs: false,
+    seed: 7,
+  };
+  assertEquals(checkUnsupportedParams(body, "lenient"), [
+    "temperature",
+    "seed",
+  ]);
+  assertEquals(
+    rejection(() => checkUnsupportedParams(body, "strict")),
+    ["temperature", "unsupported_parameter"],
+  );
+  assertEquals(
+    checkUnsupportedParams({ model: "m", messages: [], n: 1 }, "strict"),
+    [],
+  );
+  assertEquals(
+    checkUnsupportedAnthropicParams(
+      { model: "m", max_tokens: 8, messages: [], top_k: 5 },
+      "lenient",
+    ),
+    ["top_k"],
+  );
+});
+
+Deno.test("forced tool choice is listed as ignored", () => {
+  assertEquals(
+    checkUnsupportedParams(
+      { model: "m", messages: [], tool_choice: "required" },
+      "lenient",
+    ),
+    ["tool_choice"],
+  );
+  assertEquals(
+    checkUnsupportedParams(
+      { model: "m", messages: [], tool_choice: "auto" },
+      "strict",
+    ),
+    [],
+  );
+  assertEquals(
+    rejection(() =>
+      checkUnsupportedAnthropicParams(
+        {
+          model: "m",
+          max_tokens: 8,
+          messages: [],
+          tool_choice: { type: "any" },
+        },
+        "strict",
+      )
+    ),
+    ["tool_choice", "unsupported_parameter"],
+  );
+});